@@ -0,0 +1,183 @@
+import { Lexer } from 'marked';
+import type { Token, Tokens } from 'marked';
+import { escapeXml, isLineBreakTag } from '../utils/xml.js';
+
+/**
+ * Converts Markdown into Confluence storage format (XHTML with `ac:`
+ * macros). Checklists become native Confluence task lists and fenced code
+ * blocks use the code macro. Raw HTML is dropped because Confluence rejects
+ * markup it does not recognise.
+ */
+export class ConfluenceExporter {
+  private taskId = 0;
+
+  export(markdown: string): string {
+    this.taskId = 0;
+    return this.renderBlocks(new Lexer({ gfm: true }).lex(markdown));
+  }
+
+  private renderBlocks(tokens: Token[]): string {
+    let xml = '';
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'heading':
+          xml += `<h${token.depth}>${this.renderInline(token.tokens ?? [])}</h${token.depth}>\n`;
+          break;
+
+        case 'paragraph':
+          xml += `<p>${this.renderInline(token.tokens ?? [])}</p>\n`;
+          break;
+
+        case 'text': {
+          const text = token as Tokens.Text;
+          xml += `<p>${this.renderInline(text.tokens ?? [text])}</p>\n`;
+          break;
+        }
+
+        case 'list':
+          xml += this.renderList(token as Tokens.List);
+          break;
+
+        case 'table':
+          xml += this.renderTable(token as Tokens.Table);
+          break;
+
+        case 'code':
+          xml += this.renderCode(token as Tokens.Code);
+          break;
+
+        case 'blockquote':
+          xml += `<blockquote>\n${this.renderBlocks((token as Tokens.Blockquote).tokens)}</blockquote>\n`;
+          break;
+
+        case 'hr':
+          xml += '<hr />\n';
+          break;
+      }
+    }
+
+    return xml;
+  }
+
+  private renderList(list: Tokens.List): string {
+    if (list.items.length > 0 && list.items.every((item) => item.task)) {
+      const tasks = list.items.map((item) => {
+        const status = item.checked ? 'complete' : 'incomplete';
+        return (
+          `<ac:task>\n<ac:task-id>${++this.taskId}</ac:task-id>\n` +
+          `<ac:task-status>${status}</ac:task-status>\n` +
+          `<ac:task-body>${this.renderItemBody(item)}</ac:task-body>\n</ac:task>`
+        );
+      });
+      return `<ac:task-list>\n${tasks.join('\n')}\n</ac:task-list>\n`;
+    }
+
+    const tag = list.ordered ? 'ol' : 'ul';
+    const start =
+      list.ordered && typeof list.start === 'number' && list.start !== 1
+        ? ` start="${list.start}"`
+        : '';
+    const items = list.items.map((item) => `<li>${this.renderItemBody(item)}</li>`);
+    return `<${tag}${start}>\n${items.join('\n')}\n</${tag}>\n`;
+  }
+
+  /**
+   * Tight list items render inline; nested lists and loose paragraphs keep
+   * their block markup.
+   */
+  private renderItemBody(item: Tokens.ListItem): string {
+    return item.tokens
+      .map((token) => {
+        if (token.type === 'text') {
+          const text = token as Tokens.Text;
+          return this.renderInline(text.tokens ?? [text]);
+        }
+        return '\n' + this.renderBlocks([token]).trimEnd();
+      })
+      .join('');
+  }
+
+  private renderTable(table: Tokens.Table): string {
+    const style = (index: number) => {
+      const align = table.align[index];
+      return align ? ` style="text-align: ${align};"` : '';
+    };
+
+    const header = table.header
+      .map((cell, index) => `<th${style(index)}>${this.renderInline(cell.tokens)}</th>`)
+      .join('');
+    const rows = table.rows.map(
+      (row) =>
+        '<tr>' +
+        row
+          .map((cell, index) => `<td${style(index)}>${this.renderInline(cell.tokens)}</td>`)
+          .join('') +
+        '</tr>'
+    );
+
+    return `<table>\n<tbody>\n<tr>${header}</tr>\n${rows.join('\n')}\n</tbody>\n</table>\n`;
+  }
+
+  private renderCode(code: Tokens.Code): string {
+    const language = code.lang
+      ? `<ac:parameter ac:name="language">${escapeXml(code.lang)}</ac:parameter>`
+      : '';
+    // A literal ]]> would end the CDATA section early, so split it across two
+    const body = code.text.split(']]>').join(']]]]><![CDATA[>');
+
+    return (
+      `<ac:structured-macro ac:name="code">${language}` +
+      `<ac:plain-text-body><![CDATA[${body}]]></ac:plain-text-body></ac:structured-macro>\n`
+    );
+  }
+
+  /**
+   * Marked already escapes text, escape and code span tokens, so only
+   * attributes need escaping here.
+   */
+  private renderInline(tokens: Token[]): string {
+    let xml = '';
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'text': {
+          const text = token as Tokens.Text;
+          xml += text.tokens ? this.renderInline(text.tokens) : text.text;
+          break;
+        }
+        case 'escape':
+          xml += token.text;
+          break;
+        case 'strong':
+          xml += `<strong>${this.renderInline(token.tokens ?? [])}</strong>`;
+          break;
+        case 'em':
+          xml += `<em>${this.renderInline(token.tokens ?? [])}</em>`;
+          break;
+        case 'del':
+          xml += `<span style="text-decoration: line-through;">${this.renderInline(token.tokens ?? [])}</span>`;
+          break;
+        case 'codespan':
+          xml += `<code>${token.text}</code>`;
+          break;
+        case 'br':
+          xml += '<br />';
+          break;
+        case 'html':
+          // Other raw HTML is dropped, as for blocks
+          if (isLineBreakTag(token.raw)) {
+            xml += '<br />';
+          }
+          break;
+        case 'link': {
+          const link = token as Tokens.Link;
+          xml += `<a href="${escapeXml(link.href)}">${this.renderInline(link.tokens)}</a>`;
+          break;
+        }
+      }
+    }
+
+    return xml;
+  }
+}
@@ -0,0 +1,228 @@
+import { injectable, inject } from 'inversify';
+import { Marked } from 'marked';
+import type { ILogger } from '@chasenocap/logger';
+import type {
+  IContentExporter,
+  IContentManager,
+  IDocxExportOptions,
+  IHtmlExport,
+  IHtmlExportOptions,
+  ITocEntry
+} from '../types/ContentTypes.js';
+import { escapeHtml } from './OutputEscaper.js';
+import { slugify } from './TemplateFilterRegistry.js';
+import { DocxExporter } from './DocxExporter.js';
+import { ConfluenceExporter } from './ConfluenceExporter.js';
+
+/**
+ * Markdown comment that forces a printed page break at its position.
+ */
+export const PAGE_BREAK_MARKER = '<!-- pagebreak -->';
+
+/**
+ * Default stylesheet. Colours, fonts and widths are CSS custom properties so
+ * callers can theme exports through `themeVariables` without replacing it.
+ */
+export const DEFAULT_STYLESHEET = `:root {
+  --content-font: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif;
+  --content-mono-font: 'SFMono-Regular', Consolas, 'Liberation Mono', monospace;
+  --content-color: #24292f;
+  --content-background: #ffffff;
+  --content-accent: #0969da;
+  --content-border: #d0d7de;
+  --content-max-width: 860px;
+}
+
+body {
+  margin: 0;
+  font-family: var(--content-font);
+  line-height: 1.6;
+  color: var(--content-color);
+  background: var(--content-background);
+}
+
+.toc, .content {
+  max-width: var(--content-max-width);
+  margin: 0 auto;
+  padding: 0 2rem;
+}
+
+.toc ul { list-style: none; padding-left: 1.25rem; }
+.toc > ul { padding-left: 0; }
+a { color: var(--content-accent); }
+
+table { border-collapse: collapse; width: 100%; }
+th, td { border: 1px solid var(--content-border); padding: 0.4rem 0.75rem; text-align: left; }
+pre, code { font-family: var(--content-mono-font); }
+pre { padding: 1rem; overflow-x: auto; border: 1px solid var(--content-border); }
+
+@media print {
+  .toc, .content { max-width: none; padding: 0; }
+  .page-break { break-before: page; page-break-before: always; }
+  table, pre, blockquote, img { break-inside: avoid; page-break-inside: avoid; }
+  h1, h2, h3, h4 { break-after: avoid; page-break-after: avoid; }
+  a { color: inherit; text-decoration: none; }
+}`;
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'"
+};
+
+/**
+ * Converts rendered Markdown into a standalone HTML document with heading
+ * anchors, a table of contents and print styles, a Word document, or
+ * Confluence storage format.
+ */
+@injectable()
+export class ContentExporter implements IContentExporter {
+  private readonly docx = new DocxExporter();
+  private readonly confluence = new ConfluenceExporter();
+
+  constructor(
+    @inject('ILogger') private logger: ILogger,
+    @inject('IContentManager') private contentManager: IContentManager
+  ) {}
+
+  toHtml(markdown: string, options: IHtmlExportOptions = {}): IHtmlExport {
+    const childLogger = this.logger.child({ component: 'ContentExporter' });
+    childLogger.debug('Exporting markdown to HTML', { length: markdown.length });
+
+    const headings: ITocEntry[] = [];
+    const anchors = new Map<string, number>();
+    const pageBreakLevel = options.pageBreakLevel ?? 1;
+
+    const marked = new Marked({
+      gfm: true,
+      renderer: {
+        heading: (text: string, level: number) => {
+          const plain = this.toPlainText(text);
+          const anchor = this.uniqueAnchor(plain, anchors);
+          // The first heading already starts the first page
+          const pageBreak = level === pageBreakLevel && headings.length > 0;
+          headings.push({ level, text: plain, anchor });
+
+          const attributes = pageBreak ? ` id="${anchor}" class="page-break"` : ` id="${anchor}"`;
+          return `<h${level}${attributes}>${text}</h${level}>\n`;
+        }
+      }
+    });
+
+    const body = marked.parse(
+      markdown.split(PAGE_BREAK_MARKER).join('<div class="page-break"></div>'),
+      { async: false }
+    ) as string;
+
+    const tocDepth = options.tocDepth ?? 3;
+    const toc = headings.filter((heading) => heading.level <= tocDepth);
+    const title = options.title ?? headings[0]?.text ?? 'Document';
+
+    const html = [
+      '<!DOCTYPE html>',
+      '<html lang="en">',
+      '<head>',
+      '<meta charset="utf-8">',
+      `<title>${escapeHtml(title)}</title>`,
+      `<style>\n${this.buildStylesheet(options)}\n</style>`,
+      '</head>',
+      '<body>',
+      options.toc === false || toc.length === 0 ? '' : this.renderToc(toc),
+      `<main class="content">\n${body}</main>`,
+      '</body>',
+      '</html>'
+    ]
+      .filter((line) => line !== '')
+      .join('\n');
+
+    childLogger.debug('HTML export complete', { headings: headings.length });
+    return { html, title, toc };
+  }
+
+  toDocx(markdown: string, options: IDocxExportOptions = {}): Uint8Array {
+    const childLogger = this.logger.child({ component: 'ContentExporter' });
+    childLogger.debug('Exporting markdown to DOCX', { length: markdown.length });
+    return this.docx.export(markdown, options);
+  }
+
+  toConfluence(markdown: string): string {
+    const childLogger = this.logger.child({ component: 'ContentExporter' });
+    childLogger.debug('Exporting markdown to Confluence storage format', {
+      length: markdown.length
+    });
+    return this.confluence.export(markdown);
+  }
+
+  async exportTemplate(
+    templateId: string,
+    variables: Record<string, unknown>,
+    options: IHtmlExportOptions = {}
+  ): Promise<IHtmlExport> {
+    const childLogger = this.logger.child({ component: 'ContentExporter', templateId });
+    childLogger.info('Exporting template to HTML');
+
+    const markdown = await this.contentManager.renderTemplate(templateId, variables);
+    return this.toHtml(markdown, options);
+  }
+
+  private buildStylesheet(options: IHtmlExportOptions): string {
+    const css = options.css ?? DEFAULT_STYLESHEET;
+    const variables = Object.entries(options.themeVariables ?? {});
+    if (variables.length === 0) {
+      return css;
+    }
+
+    const overrides = variables.map(([name, value]) => `  ${name}: ${value};`).join('\n');
+    return `${css}\n\n:root {\n${overrides}\n}`;
+  }
+
+  /**
+   * Renders the table of contents as nested lists, relative to the
+   * shallowest heading level present.
+   */
+  private renderToc(entries: ITocEntry[]): string {
+    const baseLevel = Math.min(...entries.map((entry) => entry.level));
+    let html = '';
+    let depth = 0;
+
+    for (const entry of entries) {
+      const level = entry.level - baseLevel + 1;
+      if (level > depth) {
+        while (depth < level) {
+          html += '<ul><li>';
+          depth++;
+        }
+      } else {
+        html += '</li>';
+        while (depth > level) {
+          html += '</ul></li>';
+          depth--;
+        }
+        html += '<li>';
+      }
+      html += `<a href="#${entry.anchor}">${escapeHtml(entry.text)}</a>`;
+    }
+
+    while (depth > 0) {
+      html += '</li></ul>';
+      depth--;
+    }
+
+    return `<nav class="toc">\n${html}\n</nav>`;
+  }
+
+  private uniqueAnchor(text: string, anchors: Map<string, number>): string {
+    const slug = slugify(text) || 'section';
+    const seen = anchors.get(slug) ?? 0;
+    anchors.set(slug, seen + 1);
+    return seen === 0 ? slug : `${slug}-${seen}`;
+  }
+
+  private toPlainText(html: string): string {
+    return html
+      .replace(/<[^>]+>/g, '')
+      .replace(/&(?:amp|lt|gt|quot|#39);/g, (entity) => HTML_ENTITIES[entity] ?? entity);
+  }
+}
@@ -8,9 +8,28 @@ import type {
   IContentLoader,
   ISDLCTemplate,
   IKnowledgeBase,
+  IKnowledgeVectorIndex,
   IContentChange
 } from '../types/ContentTypes.js';
 
+/**
+ * Where the embeddings of a knowledge base are stored: next to it, as
+ * knowledge.vectors.json for knowledge.yaml.
+ */
+export function vectorIndexPath(knowledgeFile: string): string {
+  const name = path.basename(knowledgeFile, path.extname(knowledgeFile));
+  return path.join(path.dirname(knowledgeFile), `${name}.vectors.json`);
+}
+
+// js-yaml reads unquoted dates such as 2024-05-01 as Date objects
+function normalizeDate(value: unknown): string | undefined {
+  if (value instanceof Date) {
+    const iso = value.toISOString();
+    return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+  }
+  return value === undefined || value === null ? undefined : String(value);
+}
+
 @injectable()
 export class ContentLoader implements IContentLoader {
   private watchers: Map<string, any> = new Map();
@@ -29,11 +48,16 @@ export class ContentLoader implements IContentLoader {
 
     try {
       const templates: ISDLCTemplate[] = [];
-      const files = await this.fileSystem.listDirectory(directory);
+      // The change watcher reports single template files
+      const isFile = directory.endsWith('.yaml') || directory.endsWith('.yml');
+      const baseDir = isFile ? path.dirname(directory) : directory;
+      const files = isFile
+        ? [path.basename(directory)]
+        : await this.fileSystem.listDirectory(directory);
 
       for (const file of files) {
         if (file.endsWith('.yaml') || file.endsWith('.yml')) {
-          const filePath = path.join(directory, file);
+          const filePath = path.join(baseDir, file);
           const content = await this.fileSystem.readFile(filePath);
           
           try {
@@ -43,6 +67,7 @@ export class ContentLoader implements IContentLoader {
             if (!template.id) {
               template.id = path.basename(file, path.extname(file));
             }
+            template.updated = normalizeDate(template.updated);
             
             templates.push(template);
             childLogger.debug('Template loaded', { templateId: template.id });
@@ -56,7 +81,7 @@ export class ContentLoader implements IContentLoader {
 
       // Load subdirectories recursively
       for (const file of files) {
-        const filePath = path.join(directory, file);
+        const filePath = path.join(baseDir, file);
         if (await this.isDirectory(filePath)) {
           const subTemplates = await this.loadTemplates(filePath);
           templates.push(...subTemplates);
@@ -90,6 +115,9 @@ export class ContentLoader implements IContentLoader {
       // Set default values
       knowledgeBase.categories = knowledgeBase.categories || [];
       knowledgeBase.tags = knowledgeBase.tags || [];
+      for (const entry of knowledgeBase.entries) {
+        entry.updated = normalizeDate(entry.updated);
+      }
 
       childLogger.info('Knowledge base loaded successfully', {
         version: knowledgeBase.version,
@@ -105,6 +133,41 @@ export class ContentLoader implements IContentLoader {
     }
   }
 
+  async loadVectorIndex(knowledgeFile: string): Promise<IKnowledgeVectorIndex | undefined> {
+    const file = vectorIndexPath(knowledgeFile);
+    const childLogger = this.logger.child({ component: 'ContentLoader', file });
+
+    if (!(await this.fileSystem.exists(file))) {
+      return undefined;
+    }
+
+    try {
+      const index = JSON.parse(await this.fileSystem.readFile(file)) as IKnowledgeVectorIndex;
+      if (
+        typeof index.provider !== 'string' ||
+        typeof index.entries !== 'object' ||
+        !index.entries
+      ) {
+        throw new Error('Invalid vector index format');
+      }
+      return index;
+    } catch (error) {
+      // The index is only a cache of embeddings, so rebuild it rather than fail
+      childLogger.warn('Ignoring unreadable vector index', { error: (error as Error).message });
+      return undefined;
+    }
+  }
+
+  async saveVectorIndex(knowledgeFile: string, index: IKnowledgeVectorIndex): Promise<void> {
+    const file = vectorIndexPath(knowledgeFile);
+    await this.fileSystem.writeFile(file, JSON.stringify(index));
+    this.logger.debug('Vector index saved', {
+      component: 'ContentLoader',
+      file,
+      entries: Object.keys(index.entries).length
+    });
+  }
+
   watchForChanges(callback: (change: IContentChange) => void): void {
     const childLogger = this.logger.child({ component: 'ContentLoader' });
     childLogger.info('Setting up file watchers');
@@ -127,7 +190,15 @@ export class ContentLoader implements IContentLoader {
     };
 
     // Watch template directories
-    const templateDirs = ['templates', 'templates/phases', 'templates/documents'];
+    const templateDirs = [
+      'templates',
+      'templates/base',
+      'templates/phases',
+      'templates/documents',
+      'templates/partials',
+      'templates/mixins',
+      'templates/checklists'
+    ];
     for (const dir of templateDirs) {
       this.fileSystem.exists(dir).then(exists => {
         if (exists) {
@@ -9,18 +9,50 @@ import type {
   IKnowledgeBase,
   ITemplateFilter,
   IKnowledgeQuery,
+  IKnowledgeSearchResult,
+  ISemanticSearchResult,
+  IPage,
+  IEmbeddingProvider,
+  IContentChange,
   IContentValidationResult,
+  IDeprecation,
+  IDeprecationNotice,
+  IValidationError,
+  IValidationWarning,
+  CompiledPartial,
+  CompiledTemplate,
+  IRenderOptions,
+  IRenderOutput,
+  IRenderResult,
   ITemplateRenderer,
   IContentValidator,
   IContentLoader,
   ITemplateInheritance
 } from '../types/ContentTypes.js';
+import { readProperty } from './ExpressionEvaluator.js';
+import { KnowledgeSearchIndex } from './KnowledgeSearchIndex.js';
+import { KnowledgeQueryParser } from './KnowledgeQueryParser.js';
+import { KnowledgeVectorIndex } from './KnowledgeVectorIndex.js';
+import { analyze } from './TextAnalyzer.js';
+import { assertValidRange, compareVersions, parseTemplateRef, satisfies } from '../utils/semver.js';
+import { describeDeprecation } from '../utils/deprecation.js';
+import { dateKey, paginate, sortBy } from '../utils/paging.js';
+
+// Share of the hybrid score that comes from embedding similarity
+const SEMANTIC_WEIGHT = 0.5;
 
 @injectable()
 export class ContentManager implements IContentManager {
-  private templates: Map<string, ISDLCTemplate> = new Map();
+  // Every loaded version of each template, latest first
+  private templates: Map<string, ISDLCTemplate[]> = new Map();
   private knowledgeBase: IKnowledgeBase | null = null;
+  private knowledgeFile: string | undefined;
   private knowledgeIndex: Map<string, IKnowledgeEntry> = new Map();
+  private readonly searchIndex = new KnowledgeSearchIndex();
+  private readonly queryParser = new KnowledgeQueryParser();
+  private readonly vectorIndex = new KnowledgeVectorIndex();
+  private compiledTemplates: Map<string, CompiledTemplate> = new Map();
+  private compiledPartials: Map<string, CompiledPartial> = new Map();
 
   constructor(
     @inject('ILogger') private logger: ILogger,
@@ -28,14 +60,15 @@ export class ContentManager implements IContentManager {
     @inject('ITemplateRenderer') private renderer: ITemplateRenderer,
     @inject('IContentValidator') private validator: IContentValidator,
     @inject('IContentLoader') private loader: IContentLoader,
-    @inject('ITemplateInheritance') private inheritance: ITemplateInheritance
+    @inject('ITemplateInheritance') private inheritance: ITemplateInheritance,
+    @inject('IEmbeddingProvider') private embeddings: IEmbeddingProvider
   ) {
     setEventBus(this, eventBus);
     
     // Set up the template getter to break circular dependency
     if ('setTemplateGetter' in this.inheritance) {
-      (this.inheritance as any).setTemplateGetter(async (id: string) => {
-        return this.templates.get(id);
+      (this.inheritance as any).setTemplateGetter(async (ref: string) => {
+        return this.findTemplate(ref);
       });
     }
   }
@@ -45,34 +78,26 @@ export class ContentManager implements IContentManager {
     childLogger.info('Initializing content manager');
 
     // Load templates
+    this.compiledTemplates.clear();
+    this.compiledPartials.clear();
     const templates = await this.loader.loadTemplates(templateDir);
     for (const template of templates) {
-      this.templates.set(template.id, template);
+      this.addTemplate(template);
     }
 
     // Load knowledge base
     this.knowledgeBase = await this.loader.loadKnowledgeBase(knowledgeFile);
+    this.knowledgeFile = knowledgeFile;
     
     // Index knowledge entries
-    for (const entry of this.knowledgeBase.entries) {
-      this.knowledgeIndex.set(entry.id, entry);
-    }
-
-    // Set up change watchers
-    this.loader.watchForChanges(async (change) => {
-      childLogger.info('Content change detected', { change });
-      
-      if (change.type === 'template' && change.path) {
-        // Reload specific template
-        const templates = await this.loader.loadTemplates(change.path);
-        for (const template of templates) {
-          this.templates.set(template.id, template);
-        }
-      } else if (change.type === 'knowledge' && change.path) {
-        // Reload knowledge base
-        this.knowledgeBase = await this.loader.loadKnowledgeBase(change.path);
-        this.rebuildKnowledgeIndex();
-      }
+    this.rebuildKnowledgeIndex();
+    await this.rebuildVectorIndex();
+
+    // Set up change watchers; nothing awaits the callback, so failures end here
+    this.loader.watchForChanges((change) => {
+      this.handleContentChange(change).catch((error) => {
+        childLogger.error('Failed to handle content change', error as Error, { change });
+      });
     });
 
     childLogger.info('Content manager initialized', {
@@ -88,60 +113,102 @@ export class ContentManager implements IContentManager {
     });
     childLogger.debug('Getting template');
 
-    const template = this.templates.get(templateId);
+    const template = this.findTemplate(templateId);
     if (!template) {
       childLogger.warn('Template not found');
       return undefined;
     }
 
+    if (template.deprecated) {
+      const notice = this.deprecationNotice(template, template.deprecated);
+      childLogger.warn('Deprecated template requested', { notice: notice.message });
+      await this.reportDeprecated(notice);
+    }
+
     // Resolve inheritance
-    if (template.parent) {
+    if (template.parent || template.mixins?.length) {
       return await this.inheritance.resolveTemplate(templateId);
     }
 
     return template;
   }
 
+  /**
+   * Versions of a template, latest first.
+   */
+  getTemplateVersions(templateId: string): string[] {
+    return (this.templates.get(templateId) ?? []).map((t) => t.version);
+  }
+
   @Emits('template.loaded', {
     payloadMapper: (_filter?: ITemplateFilter) => ({ count: 0 })
   })
   async getAllTemplates(filter?: ITemplateFilter): Promise<ISDLCTemplate[]> {
+    return (await this.getTemplatePage(filter)).items;
+  }
+
+  /**
+   * One page of the filtered templates, with facet counts over all of them.
+   * Filters and facets see resolved templates; the page lists them as
+   * declared.
+   */
+  async getTemplatePage(filter: ITemplateFilter = {}): Promise<IPage<ISDLCTemplate>> {
     const childLogger = this.logger.child({ component: 'ContentManager' });
     childLogger.debug('Getting all templates', { filter });
 
-    let templates = Array.from(this.templates.values());
-
-    if (filter) {
-      if (filter.category) {
-        templates = templates.filter(t => t.category === filter.category);
-      }
-      if (filter.phase) {
-        templates = templates.filter(t => t.phase === filter.phase);
-      }
-      if (filter.tags && filter.tags.length > 0) {
-        templates = templates.filter(t => 
-          t.tags && filter.tags!.some(tag => t.tags!.includes(tag))
-        );
-      }
-      if (filter.parent !== undefined) {
-        templates = templates.filter(t => t.parent === filter.parent);
+    if (filter.version) {
+      assertValidRange(filter.version);
+    }
+    const candidates = filter.version
+      ? this.templatesInRange(filter.version)
+      : this.latestTemplates();
+
+    let matches: Array<{ template: ISDLCTemplate; resolved: ISDLCTemplate }> = [];
+    for (const template of candidates) {
+      const resolved = await this.resolveForFilter(template);
+      if (await this.matchesFilter(template, resolved, filter)) {
+        matches.push({ template, resolved });
       }
     }
 
-    childLogger.debug('Templates filtered', { count: templates.length });
-    return templates;
+    switch (filter.sort) {
+      case 'title':
+        matches = sortBy(matches, (m) => m.template.name, filter.order ?? 'asc');
+        break;
+      case 'updated':
+        matches = sortBy(matches, (m) => dateKey(m.template.updated), filter.order ?? 'desc');
+        break;
+    }
+
+    childLogger.debug('Templates filtered', { count: matches.length });
+    const page = paginate(matches, filter, (m) => m.resolved);
+    return { ...page, items: page.items.map((m) => m.template) };
   }
 
-  @Emits('template.rendered', {
-    payloadMapper: (templateId: string, variables: Record<string, unknown>) => ({ 
-      templateId, 
-      variableCount: Object.keys(variables).length
-    })
-  })
+  renderTemplate(
+    templateId: string,
+    variables: Record<string, unknown>,
+    options: IRenderOptions & { warn: true }
+  ): Promise<IRenderOutput>;
+  renderTemplate(
+    templateId: string,
+    variables: Record<string, unknown>,
+    options?: IRenderOptions
+  ): Promise<string>;
   async renderTemplate(
     templateId: string,
-    variables: Record<string, unknown>
-  ): Promise<string> {
+    variables: Record<string, unknown>,
+    options: IRenderOptions = {}
+  ): Promise<string | IRenderOutput> {
+    const result = await this.renderTemplateDetailed(templateId, variables, options);
+    return options.warn ? { output: result.output, warnings: result.warnings } : result.output;
+  }
+
+  async renderTemplateDetailed(
+    templateId: string,
+    variables: Record<string, unknown>,
+    options: IRenderOptions = {}
+  ): Promise<IRenderResult> {
     const childLogger = this.logger.child({
       component: 'ContentManager',
       templateId
@@ -150,13 +217,68 @@ export class ContentManager implements IContentManager {
 
     const startTime = Date.now();
 
-    const template = await this.getTemplate(templateId);
+    let template = await this.getTemplate(templateId);
     if (!template) {
       throw new Error(`Template not found: ${templateId}`);
     }
 
+    // Deprecated templates with a replacement render the replacement instead
+    const deprecations: IDeprecationNotice[] = [];
+    const replaced = [template.id];
+    let renderedRef = templateId;
+    let supplied = variables;
+    while (template.deprecated) {
+      deprecations.push(this.deprecationNotice(template, template.deprecated));
+      const { replacedBy, variables: renames = {} } = template.deprecated;
+      if (!replacedBy) {
+        break;
+      }
+
+      const replacement: ISDLCTemplate | undefined = await this.getTemplate(replacedBy);
+      if (!replacement) {
+        throw new Error(`Replacement template not found: ${replacedBy} (replaces ${template.id})`);
+      }
+      if (replaced.includes(replacement.id)) {
+        throw new Error(
+          `Circular template replacement: ${[...replaced, replacement.id].join(' -> ')}`
+        );
+      }
+
+      childLogger.warn('Rendering replacement of deprecated template', {
+        deprecated: template.id,
+        replacedBy
+      });
+      replaced.push(replacement.id);
+      renderedRef = replacedBy;
+      supplied = this.renameVariables(supplied, renames);
+      template = replacement;
+    }
+
+    // Deprecated variables pass their value on to the variable replacing them
+    for (const variable of template.variables ?? []) {
+      if (!variable.deprecated || !Object.prototype.hasOwnProperty.call(supplied, variable.name)) {
+        continue;
+      }
+
+      const notice = this.deprecationNotice(template, variable.deprecated, variable.name);
+      childLogger.warn('Deprecated variable supplied', { notice: notice.message });
+      deprecations.push(notice);
+      await this.reportDeprecated(notice);
+
+      const { replacedBy } = variable.deprecated;
+      if (replacedBy && !Object.prototype.hasOwnProperty.call(supplied, replacedBy)) {
+        supplied = { ...supplied, [replacedBy]: supplied[variable.name] };
+      }
+    }
+
+    // Fill in declared defaults for anything the caller left out
+    const { variables: values, applied } = this.renderer.applyDefaults(template, supplied);
+    if (applied.length > 0) {
+      childLogger.info('Applied variable defaults', { applied });
+    }
+
     // Validate variables
-    const validation = this.renderer.validateVariables(template, variables);
+    const validation = await this.renderer.validateVariablesAsync(template, values);
     if (!validation.valid) {
       childLogger.error('Template variable validation failed', new Error('Validation failed'), {
         errors: validation.errors
@@ -165,27 +287,80 @@ export class ContentManager implements IContentManager {
       throw error;
     }
 
+    // Load every partial the template includes, directly or through other partials
+    const partials = await this.resolvePartials(template);
+
     // Render template
-    const rendered = this.renderer.render(template.content, variables);
-    
-    const duration = Date.now() - startTime;
-    childLogger.info('Template rendered successfully', { duration });
+    const { output, warnings } = this.getCompiledTemplate(template)(values, {
+      format: template.format,
+      ...options,
+      partials: { ...partials, ...options.partials },
+      warn: true
+    });
+
+    const referenced = this.renderer.extractVariables(template.content).map((v) => v.name);
+    const result: IRenderResult = {
+      output,
+      templateId,
+      resolvedChain: await this.inheritance.getInheritanceChain(renderedRef),
+      duration: Date.now() - startTime,
+      warnings,
+      usedVariables: referenced.filter((name) => this.hasValue(values, name)),
+      unusedVariables: Object.keys(supplied).filter(
+        (key) => !referenced.some((name) => name === key || name.startsWith(`${key}.`))
+      ),
+      appliedDefaults: applied,
+      deprecations
+    };
+
+    childLogger.info('Template rendered successfully', { duration: result.duration });
+    await this.reportRendered(result);
 
-    // The @Emits decorator will automatically emit the event with these return values
-    return rendered;
+    return result;
   }
 
   @Emits('template.validation.failed', {
     payloadMapper: (templateId: string, errors: unknown[]) => ({ templateId, errors })
   })
-  validateTemplate(template: ISDLCTemplate): IContentValidationResult {
+  async validateTemplate(template: ISDLCTemplate): Promise<IContentValidationResult> {
     const childLogger = this.logger.child({
       component: 'ContentManager',
       templateId: template.id
     });
     childLogger.debug('Validating template');
 
-    const result = this.validator.validateTemplate(template);
+    const partialIds = new Set(
+      this.latestTemplates()
+        .filter((t) => t.category === 'partial')
+        .map((t) => t.id)
+    );
+    let result = this.validator.validateTemplate(template, partialIds);
+
+    // Parents and mixins that have been deprecated
+    const references = [
+      ...(template.parent ? [{ path: 'parent', ref: template.parent }] : []),
+      ...(template.mixins ?? []).map((ref, i) => ({ path: `mixins[${i}]`, ref }))
+    ];
+    const deprecatedBases: IValidationWarning[] = [];
+    for (const { path, ref } of references) {
+      const base = this.findTemplate(ref);
+      if (base?.deprecated) {
+        deprecatedBases.push({
+          path,
+          message: describeDeprecation(`Template '${base.id}'`, base.deprecated),
+          type: 'deprecated'
+        });
+      }
+    }
+    if (deprecatedBases.length > 0) {
+      result = { ...result, warnings: [...result.warnings, ...deprecatedBases] };
+    }
+
+    // Variable redefinitions that break merge rules
+    const conflicts = await this.findVariableConflicts(template);
+    if (conflicts.length > 0) {
+      result = { ...result, valid: false, errors: [...result.errors, ...conflicts] };
+    }
 
     if (!result.valid) {
       childLogger.warn('Template validation failed', {
@@ -216,43 +391,82 @@ export class ContentManager implements IContentManager {
     payloadMapper: (query: IKnowledgeQuery) => ({ query })
   })
   async searchKnowledge(query: IKnowledgeQuery): Promise<IKnowledgeEntry[]> {
-    const childLogger = this.logger.child({ component: 'ContentManager' });
-    childLogger.debug('Searching knowledge base', { query });
+    return this.pageKnowledge(query).items.map((result) => result.entry);
+  }
 
-    let entries = Array.from(this.knowledgeIndex.values());
+  /**
+   * Like searchKnowledge, with each entry's relevance score and highlights.
+   */
+  @Emits('knowledge.searched', {
+    payloadMapper: (query: IKnowledgeQuery) => ({ query })
+  })
+  async searchKnowledgeRanked(query: IKnowledgeQuery): Promise<IKnowledgeSearchResult[]> {
+    return this.pageKnowledge(query).items;
+  }
 
-    // Apply filters
-    if (query.category) {
-      entries = entries.filter(e => e.category === query.category);
-    }
+  /**
+   * Like searchKnowledgeRanked, as a page with the total, a cursor for the
+   * next page and facet counts over all matches.
+   */
+  @Emits('knowledge.searched', {
+    payloadMapper: (query: IKnowledgeQuery) => ({ query })
+  })
+  async searchKnowledgePage(query: IKnowledgeQuery): Promise<IPage<IKnowledgeSearchResult>> {
+    return this.pageKnowledge(query);
+  }
 
-    if (query.phase) {
-      entries = entries.filter(e => e.phase === query.phase);
-    }
+  /**
+   * Hybrid search: keyword relevance, scaled so the best keyword match
+   * scores 1, blended with the similarity of the query's embedding to each
+   * entry's, so entries can match without sharing a word with the query.
+   */
+  @Emits('knowledge.searched', {
+    payloadMapper: (query: string, k?: number) => ({
+      query: { text: query, limit: k },
+      semantic: true
+    })
+  })
+  async semanticSearch(query: string, k: number = 5): Promise<ISemanticSearchResult[]> {
+    const childLogger = this.logger.child({ component: 'ContentManager' });
 
-    if (query.tags && query.tags.length > 0) {
-      entries = entries.filter(e =>
-        query.tags!.some(tag => e.tags.includes(tag))
-      );
-    }
+    const keyword = new Map(this.rankKnowledge({ text: query }).map((r) => [r.entry.id, r]));
+    const bestKeyword = Math.max(0, ...Array.from(keyword.values(), (r) => r.score));
 
-    // Text search (simple implementation)
-    if (query.text) {
-      const searchText = query.text.toLowerCase();
-      entries = entries.filter(e =>
-        e.title.toLowerCase().includes(searchText) ||
-        e.content.toLowerCase().includes(searchText) ||
-        e.tags.some(tag => tag.toLowerCase().includes(searchText))
-      );
+    const similarity = new Map<string, number>();
+    if (this.vectorIndex.size > 0) {
+      const [vector = []] = await this.embeddings.embed([query]);
+      for (const similar of this.vectorIndex.search(vector)) {
+        similarity.set(similar.id, similar.score);
+      }
     }
 
-    // Apply limit
-    if (query.limit && query.limit > 0) {
-      entries = entries.slice(0, query.limit);
+    const results: ISemanticSearchResult[] = [];
+    for (const id of new Set([...keyword.keys(), ...similarity.keys()])) {
+      const entry = this.knowledgeIndex.get(id);
+      if (!entry) {
+        continue;
+      }
+      const matched = keyword.get(id);
+      const keywordScore = matched?.score ?? 0;
+      const semanticScore = similarity.get(id) ?? 0;
+      results.push({
+        entry,
+        score:
+          SEMANTIC_WEIGHT * semanticScore +
+          (1 - SEMANTIC_WEIGHT) * (bestKeyword > 0 ? keywordScore / bestKeyword : 0),
+        keywordScore,
+        semanticScore,
+        matchedTerms: matched?.matchedTerms ?? [],
+        highlights: matched?.highlights ?? this.searchIndex.highlight(entry, [])
+      });
     }
 
-    childLogger.debug('Knowledge search complete', { results: entries.length });
-    return entries;
+    results.sort((a, b) => b.score - a.score);
+    childLogger.debug('Semantic search complete', {
+      keywordMatches: keyword.size,
+      similarEntries: similarity.size
+    });
+    return results.slice(0, k);
   }
 
   async getRelatedKnowledge(entryId: string): Promise<IKnowledgeEntry[]> {
@@ -296,6 +510,427 @@ export class ContentManager implements IContentManager {
     return related;
   }
 
+  @Emits('content.changed', {
+    payloadMapper: (change: IContentChange) => change
+  })
+  async handleContentChange(change: IContentChange): Promise<void> {
+    const childLogger = this.logger.child({ component: 'ContentManager' });
+    childLogger.info('Content change detected', { change });
+
+    if (change.type === 'template') {
+      const changedIds = [change.id];
+
+      if (change.path) {
+        // Reload specific template. A moved, deleted or half-saved file is
+        // logged and the change is still invalidated below
+        try {
+          const templates = await this.loader.loadTemplates(change.path);
+          for (const template of templates) {
+            changedIds.push(template.id);
+            this.addTemplate(template);
+          }
+        } catch (error) {
+          childLogger.error('Failed to reload changed template', error as Error, { change });
+        }
+      }
+
+      const affected = new Set<string>();
+      for (const templateId of changedIds) {
+        this.inheritance.invalidate(templateId).forEach((id) => affected.add(id));
+      }
+      for (const templateId of affected) {
+        this.invalidateCompiledTemplate(templateId);
+      }
+      await this.reportInvalidated([...affected]);
+    } else if (change.type === 'knowledge' && change.path) {
+      // Reload knowledge base
+      this.knowledgeBase = await this.loader.loadKnowledgeBase(change.path);
+      this.knowledgeFile = change.path;
+      this.rebuildKnowledgeIndex();
+      await this.rebuildVectorIndex();
+    }
+  }
+
+  /**
+   * Publishes `template.rendered` once the render has finished, so the event
+   * carries the measured duration.
+   */
+  @Emits('template.rendered', {
+    payloadMapper: (result: IRenderResult) => ({
+      templateId: result.templateId,
+      duration: result.duration
+    })
+  })
+  private async reportRendered(result: IRenderResult): Promise<IRenderResult> {
+    return result;
+  }
+
+  /**
+   * Publishes `template.deprecated` when a deprecated template is requested
+   * or a deprecated variable is supplied.
+   */
+  @Emits('template.deprecated', {
+    payloadMapper: (notice: IDeprecationNotice) => notice
+  })
+  private async reportDeprecated(notice: IDeprecationNotice): Promise<IDeprecationNotice> {
+    return notice;
+  }
+
+  /**
+   * Publishes `template.invalidated` with every template whose resolved or
+   * compiled form was dropped after a change.
+   */
+  @Emits('template.invalidated', {
+    payloadMapper: (templateIds: string[]) => ({ templateIds })
+  })
+  private async reportInvalidated(templateIds: string[]): Promise<string[]> {
+    return templateIds;
+  }
+
+  /**
+   * Collects each partial reachable from a template, compiled. Includes must
+   * name templates in the `partial` category; cycles and the depth limit are
+   * enforced by the renderer.
+   */
+  private async resolvePartials(template: ISDLCTemplate): Promise<Record<string, CompiledPartial>> {
+    const partials: Record<string, CompiledPartial> = {};
+    const pending = this.renderer.extractPartials(template.content);
+
+    for (let partialId = pending.shift(); partialId !== undefined; partialId = pending.shift()) {
+      if (Object.prototype.hasOwnProperty.call(partials, partialId)) {
+        continue;
+      }
+
+      const partial = await this.getTemplate(partialId);
+      if (!partial) {
+        throw new Error(`Partial not found: ${partialId} (included by ${template.id})`);
+      }
+      if (partial.category !== 'partial') {
+        throw new Error(`Template '${partialId}' cannot be included because it is not a partial`);
+      }
+
+      const compiled = this.getCompiledPartial(partial);
+      partials[partialId] = compiled;
+      pending.push(...compiled.includes);
+    }
+
+    return partials;
+  }
+
+  /**
+   * Merges the template's own variables over its parent and mixin chain
+   * for merge conflicts, whether or not it is loaded. A hierarchy that
+   * cannot be resolved is reported as an invalid parent.
+   */
+  private async findVariableConflicts(template: ISDLCTemplate): Promise<IValidationError[]> {
+    try {
+      return await this.inheritance.findConflicts(template);
+    } catch (error) {
+      return [{ path: 'parent', message: (error as Error).message, type: 'invalid' }];
+    }
+  }
+
+  /**
+   * Finds the template a reference selects: the latest version for `id` or
+   * `id@latest`, the latest version in the range for `id@range`. A range
+   * that cannot be parsed matches nothing.
+   */
+  private findTemplate(ref: string): ISDLCTemplate | undefined {
+    const { id, range } = parseTemplateRef(ref);
+    if (range !== undefined) {
+      try {
+        assertValidRange(range);
+      } catch (error) {
+        this.logger.warn('Invalid template reference', {
+          component: 'ContentManager',
+          ref,
+          error: (error as Error).message
+        });
+        return undefined;
+      }
+    }
+    const versions = this.templates.get(id) ?? [];
+    return range === undefined ? versions[0] : versions.find((t) => satisfies(t.version, range));
+  }
+
+  /**
+   * Stores a template next to its other versions. Loading a version that is
+   * already known replaces it.
+   */
+  private addTemplate(template: ISDLCTemplate): void {
+    const versions = (this.templates.get(template.id) ?? []).filter(
+      (t) => t.version !== template.version
+    );
+    versions.push(template);
+    versions.sort((a, b) => compareVersions(b.version, a.version));
+    this.templates.set(template.id, versions);
+  }
+
+  private latestTemplates(): ISDLCTemplate[] {
+    return Array.from(this.templates.values()).flatMap((versions) => versions.slice(0, 1));
+  }
+
+  // The highest version of each template within the range
+  private templatesInRange(range: string): ISDLCTemplate[] {
+    const matches: ISDLCTemplate[] = [];
+    for (const versions of this.templates.values()) {
+      const match = versions.find((t) => satisfies(t.version, range));
+      if (match) {
+        matches.push(match);
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * The template with its inherited content, or as declared if its bases
+   * cannot be resolved, so one broken template does not fail the listing.
+   */
+  private async resolveForFilter(template: ISDLCTemplate): Promise<ISDLCTemplate> {
+    if (!template.parent && !template.mixins?.length) {
+      return template;
+    }
+    try {
+      return await this.inheritance.resolveTemplate(`${template.id}@${template.version}`);
+    } catch (error) {
+      this.logger.warn('Filtering template as declared', {
+        component: 'ContentManager',
+        templateId: template.id,
+        error: (error as Error).message
+      });
+      return template;
+    }
+  }
+
+  private async matchesFilter(
+    template: ISDLCTemplate,
+    resolved: ISDLCTemplate,
+    filter: ITemplateFilter
+  ): Promise<boolean> {
+    if (filter.category && resolved.category !== filter.category) {
+      return false;
+    }
+    if (filter.phase && resolved.phase !== filter.phase) {
+      return false;
+    }
+
+    if (filter.tags) {
+      const tagFilter = Array.isArray(filter.tags) ? { any: filter.tags } : filter.tags;
+      const tags = resolved.tags ?? [];
+      if (
+        (tagFilter.any?.length && !tagFilter.any.some((tag) => tags.includes(tag))) ||
+        (tagFilter.all && !tagFilter.all.every((tag) => tags.includes(tag))) ||
+        (tagFilter.none && tagFilter.none.some((tag) => tags.includes(tag)))
+      ) {
+        return false;
+      }
+    }
+
+    if (filter.text) {
+      const words = new Set(
+        analyze(`${resolved.id} ${resolved.name} ${resolved.description ?? ''}`)
+      );
+      if (!analyze(filter.text).every((term) => words.has(term))) {
+        return false;
+      }
+    }
+
+    if (filter.hasVariable) {
+      const names = new Set((resolved.variables ?? []).map((v) => v.name));
+      const required = Array.isArray(filter.hasVariable)
+        ? filter.hasVariable
+        : [filter.hasVariable];
+      if (!required.every((name) => names.has(name))) {
+        return false;
+      }
+    }
+
+    if (
+      filter.parent !== undefined &&
+      template.parent !== filter.parent &&
+      !(template.parent && parseTemplateRef(template.parent).id === filter.parent)
+    ) {
+      return false;
+    }
+
+    if (filter.inheritsFrom !== undefined) {
+      if (!template.parent && !template.mixins?.length) {
+        return false;
+      }
+      try {
+        const chain = await this.inheritance.getInheritanceChain(
+          `${template.id}@${template.version}`
+        );
+        return chain.slice(1).some((key) => parseTemplateRef(key).id === filter.inheritsFrom);
+      } catch {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  private deprecationNotice(
+    template: ISDLCTemplate,
+    deprecation: IDeprecation,
+    variableName?: string
+  ): IDeprecationNotice {
+    const subject = variableName
+      ? `Variable '${variableName}' of '${template.id}'`
+      : `Template '${template.id}'`;
+
+    return {
+      templateId: template.id,
+      variable: variableName,
+      since: deprecation.since,
+      replacedBy: deprecation.replacedBy,
+      message: describeDeprecation(subject, deprecation)
+    };
+  }
+
+  /**
+   * Moves values supplied under old variable names to their new names,
+   * unless the caller already supplied the new name.
+   */
+  private renameVariables(
+    values: Record<string, unknown>,
+    renames: Record<string, string>
+  ): Record<string, unknown> {
+    const renamed: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(values)) {
+      const target = renames[key];
+      if (target === undefined || Object.prototype.hasOwnProperty.call(values, target)) {
+        renamed[key] = value;
+      } else {
+        renamed[target] = value;
+      }
+    }
+    return renamed;
+  }
+
+  private hasValue(values: Record<string, unknown>, path: string): boolean {
+    let current: unknown = values;
+    for (const part of path.split('.')) {
+      current = readProperty(current, part);
+    }
+    return current !== undefined;
+  }
+
+  private getCompiledTemplate(template: ISDLCTemplate): CompiledTemplate {
+    const cacheKey = `${template.id}@${template.version}`;
+
+    let compiled = this.compiledTemplates.get(cacheKey);
+    if (!compiled) {
+      compiled = this.renderer.compile(template.content);
+      this.compiledTemplates.set(cacheKey, compiled);
+      this.logger.debug('Template compiled and cached', {
+        component: 'ContentManager',
+        templateId: template.id,
+        version: template.version
+      });
+    }
+
+    return compiled;
+  }
+
+  // Partials are cached like templates, by id and version
+  private getCompiledPartial(partial: ISDLCTemplate): CompiledPartial {
+    const cacheKey = `${partial.id}@${partial.version}`;
+
+    let compiled = this.compiledPartials.get(cacheKey);
+    if (!compiled) {
+      compiled = this.renderer.compilePartial(partial.id, partial.content);
+      this.compiledPartials.set(cacheKey, compiled);
+    }
+
+    return compiled;
+  }
+
+  private invalidateCompiledTemplate(templateId: string): void {
+    for (const cache of [this.compiledTemplates, this.compiledPartials]) {
+      for (const key of cache.keys()) {
+        if (key.slice(0, key.lastIndexOf('@')) === templateId) {
+          cache.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Filters entries by category, phase and tags, then matches them against
+   * the parsed query text and ranks them with BM25. Without text, entries
+   * keep their knowledge base order. Returns every match, unpaged.
+   */
+  private rankKnowledge(query: IKnowledgeQuery): IKnowledgeSearchResult[] {
+    const childLogger = this.logger.child({ component: 'ContentManager' });
+    childLogger.debug('Searching knowledge base', { query });
+
+    let entries = Array.from(this.knowledgeIndex.values());
+
+    // Apply filters
+    if (query.category) {
+      entries = entries.filter((e) => e.category === query.category);
+    }
+
+    if (query.phase) {
+      entries = entries.filter((e) => e.phase === query.phase);
+    }
+
+    const tags = query.tags ?? [];
+    if (tags.length > 0) {
+      entries = entries.filter((e) => tags.some((tag) => e.tags.includes(tag)));
+    }
+
+    let results: IKnowledgeSearchResult[];
+    if (query.text) {
+      const expression = this.queryParser.parse(query.text);
+      const candidates = new Map(entries.map((e) => [e.id, e]));
+      const ranked = expression
+        ? this.searchIndex.search(expression, { fuzzy: query.fuzzy !== false })
+        : [];
+      results = ranked.flatMap((scored) => {
+        const entry = candidates.get(scored.id);
+        if (!entry) return [];
+        return [
+          {
+            entry,
+            score: scored.score,
+            matchedTerms: scored.matchedTerms,
+            highlights: this.searchIndex.highlight(entry, scored.matchedTerms)
+          }
+        ];
+      });
+    } else {
+      results = entries.map((entry) => ({
+        entry,
+        score: 0,
+        matchedTerms: [],
+        highlights: this.searchIndex.highlight(entry, [])
+      }));
+    }
+
+    childLogger.debug('Knowledge search complete', { results: results.length });
+    return results;
+  }
+
+  private pageKnowledge(query: IKnowledgeQuery): IPage<IKnowledgeSearchResult> {
+    let results = this.rankKnowledge(query);
+
+    switch (query.sort ?? (query.text ? 'score' : undefined)) {
+      case 'score':
+        results = sortBy(results, (r) => r.score, query.order ?? 'desc');
+        break;
+      case 'title':
+        results = sortBy(results, (r) => r.entry.title, query.order ?? 'asc');
+        break;
+      case 'updated':
+        results = sortBy(results, (r) => dateKey(r.entry.updated), query.order ?? 'desc');
+        break;
+    }
+
+    return paginate(results, query, (r) => r.entry);
+  }
+
   private rebuildKnowledgeIndex(): void {
     this.knowledgeIndex.clear();
     
@@ -304,10 +939,50 @@ export class ContentManager implements IContentManager {
         this.knowledgeIndex.set(entry.id, entry);
       }
     }
+    this.searchIndex.build(Array.from(this.knowledgeIndex.values()));
 
     this.logger.debug('Knowledge index rebuilt', {
       component: 'ContentManager',
       entries: this.knowledgeIndex.size
     });
   }
+
+  /**
+   * Embeds new and edited entries, reusing the vectors stored next to the
+   * knowledge base, and saves them when anything changed. If the provider
+   * fails, semantic search falls back to keyword relevance; if saving fails,
+   * the vectors are still used and embedded again on the next start.
+   */
+  private async rebuildVectorIndex(): Promise<void> {
+    const childLogger = this.logger.child({ component: 'ContentManager' });
+
+    let changed: boolean;
+    try {
+      const stored = this.knowledgeFile
+        ? await this.loader.loadVectorIndex(this.knowledgeFile)
+        : undefined;
+      changed = await this.vectorIndex.build(
+        Array.from(this.knowledgeIndex.values()),
+        this.embeddings,
+        stored
+      );
+
+      childLogger.debug('Vector index rebuilt', {
+        provider: this.embeddings.id,
+        entries: this.vectorIndex.size
+      });
+    } catch (error) {
+      this.vectorIndex.clear();
+      childLogger.error('Failed to build vector index', error as Error);
+      return;
+    }
+
+    if (changed && this.knowledgeFile) {
+      try {
+        await this.loader.saveVectorIndex(this.knowledgeFile, this.vectorIndex.toJSON());
+      } catch (error) {
+        childLogger.error('Failed to save vector index', error as Error);
+      }
+    }
+  }
 }
\ No newline at end of file
@@ -1,9 +1,12 @@
-import { injectable, inject } from 'inversify';
+import { injectable, inject, optional } from 'inversify';
 import AjvModule from 'ajv';
 const Ajv = AjvModule.default || AjvModule;
 import type { ILogger } from '@chasenocap/logger';
 import type {
   IContentValidator,
+  ITemplateFilterRegistry,
+  IVariableValidatorRegistry,
+  VariableValidator,
   ISDLCTemplate,
   IKnowledgeEntry,
   ITemplateVariable,
@@ -11,17 +14,34 @@ import type {
   IValidationError,
   IValidationWarning
 } from '../types/ContentTypes.js';
+import { TemplateParser, walkTemplate } from './TemplateParser.js';
+import { TemplateFilterRegistry } from './TemplateFilterRegistry.js';
+import { VariableValidatorRegistry } from './VariableValidatorRegistry.js';
+import { assertValidRange, parseTemplateRef } from '../utils/semver.js';
+import { describeDeprecation } from '../utils/deprecation.js';
 
 @injectable()
 export class ContentValidator implements IContentValidator {
   private ajv: any;
-
-  constructor(@inject('ILogger') private logger: ILogger) {
+  private readonly parser = new TemplateParser();
+
+  constructor(
+    @inject('ILogger') private logger: ILogger,
+    @inject('ITemplateFilterRegistry')
+    @optional()
+    private filters: ITemplateFilterRegistry = new TemplateFilterRegistry(),
+    @inject('IVariableValidatorRegistry')
+    @optional()
+    private validators: IVariableValidatorRegistry = new VariableValidatorRegistry()
+  ) {
     this.ajv = new Ajv({ allErrors: true });
     this.setupSchemas();
   }
 
-  validateTemplate(template: ISDLCTemplate): IContentValidationResult {
+  validateTemplate(
+    template: ISDLCTemplate,
+    partialIds?: ReadonlySet<string>
+  ): IContentValidationResult {
     const childLogger = this.logger.child({
       component: 'ContentValidator',
       templateId: template.id
@@ -61,7 +81,7 @@ export class ContentValidator implements IContentValidator {
     }
 
     // Check for valid category
-    const validCategories = ['phase', 'document', 'deliverable', 'checklist'];
+    const validCategories = ['phase', 'document', 'deliverable', 'checklist', 'partial'];
     if (!validCategories.includes(template.category)) {
       errors.push({
         path: 'category',
@@ -70,6 +90,23 @@ export class ContentValidator implements IContentValidator {
       });
     }
 
+    // Check version ranges pinned by parent and mixin references
+    const references = [
+      ...(template.parent ? [{ path: 'parent', ref: template.parent }] : []),
+      ...(template.mixins ?? []).map((ref, i) => ({ path: `mixins[${i}]`, ref }))
+    ];
+    for (const { path, ref } of references) {
+      const { range } = parseTemplateRef(ref);
+      if (range === undefined) {
+        continue;
+      }
+      try {
+        assertValidRange(range);
+      } catch (error) {
+        errors.push({ path, message: (error as Error).message, type: 'invalid' });
+      }
+    }
+
     // Validate variables
     if (template.variables) {
       for (let i = 0; i < template.variables.length; i++) {
@@ -82,7 +119,7 @@ export class ContentValidator implements IContentValidator {
     }
 
     // Check for template syntax errors
-    const syntaxErrors = this.checkTemplateSyntax(template.content);
+    const syntaxErrors = this.checkTemplateSyntax(template, partialIds);
     errors.push(...syntaxErrors);
 
     // Warnings
@@ -102,6 +139,24 @@ export class ContentValidator implements IContentValidator {
       });
     }
 
+    if (template.deprecated) {
+      warnings.push({
+        path: 'deprecated',
+        message: describeDeprecation(`Template '${template.id}'`, template.deprecated),
+        type: 'deprecated'
+      });
+    }
+
+    template.variables?.forEach((variable, i) => {
+      if (variable.deprecated) {
+        warnings.push({
+          path: `variables[${i}].deprecated`,
+          message: describeDeprecation(`Variable '${variable.name}'`, variable.deprecated),
+          type: 'deprecated'
+        });
+      }
+    });
+
     childLogger.debug('Template validation complete', {
       errors: errors.length,
       warnings: warnings.length
@@ -195,6 +250,34 @@ export class ContentValidator implements IContentValidator {
   validateVariables(
     variables: ITemplateVariable[],
     values: Record<string, unknown>
+  ): IContentValidationResult {
+    return this.checkVariables(variables, values, null);
+  }
+
+  async validateVariablesAsync(
+    variables: ITemplateVariable[],
+    values: Record<string, unknown>
+  ): Promise<IContentValidationResult> {
+    const pending: Array<Promise<IValidationError[]>> = [];
+    const result = this.checkVariables(variables, values, pending);
+
+    for (const errors of await Promise.all(pending)) {
+      result.errors.push(...errors);
+    }
+
+    return { ...result, valid: result.errors.length === 0 };
+  }
+
+  registerValidator(name: string, validator: VariableValidator): void {
+    const childLogger = this.logger.child({ component: 'ContentValidator' });
+    childLogger.debug('Registering custom validator', { name });
+    this.validators.register(name, validator);
+  }
+
+  private checkVariables(
+    variables: ITemplateVariable[],
+    values: Record<string, unknown>,
+    pending: Array<Promise<IValidationError[]>> | null
   ): IContentValidationResult {
     const childLogger = this.logger.child({ component: 'ContentValidator' });
     childLogger.debug('Validating variables', { count: variables.length });
@@ -230,6 +313,22 @@ export class ContentValidator implements IContentValidator {
           const varErrors = this.validateVariableValue(variable, value);
           errors.push(...varErrors);
         }
+
+        if (variable.validation?.custom) {
+          const outcome = this.validators.run(variable.validation.custom, value, variable);
+          if (!(outcome instanceof Promise)) {
+            errors.push(...outcome);
+          } else if (pending) {
+            pending.push(outcome);
+          } else {
+            outcome.catch(() => undefined);
+            warnings.push({
+              path: variable.name,
+              message: `Custom validator '${variable.validation.custom}' is asynchronous and was skipped; use validateVariablesAsync`,
+              type: 'best-practice'
+            });
+          }
+        }
       }
     }
 
@@ -266,14 +365,30 @@ export class ContentValidator implements IContentValidator {
       properties: {
         id: { type: 'string', minLength: 1 },
         name: { type: 'string', minLength: 1 },
-        category: { type: 'string', enum: ['phase', 'document', 'deliverable', 'checklist'] },
+        category: {
+          type: 'string',
+          enum: ['phase', 'document', 'deliverable', 'checklist', 'partial']
+        },
         phase: { type: 'string' },
         version: { type: 'string', pattern: '^\\d+\\.\\d+\\.\\d+$' },
         description: { type: 'string' },
         variables: { type: 'array' },
         content: { type: 'string', minLength: 1 },
         parent: { type: 'string' },
-        tags: { type: 'array', items: { type: 'string' } }
+        mixins: { type: 'array', items: { type: 'string' }, uniqueItems: true },
+        tags: { type: 'array', items: { type: 'string' } },
+        format: { type: 'string', enum: ['markdown', 'html', 'text'] },
+        updated: { type: 'string' },
+        deprecated: {
+          type: 'object',
+          required: ['since'],
+          properties: {
+            since: { type: 'string' },
+            replacedBy: { type: 'string' },
+            message: { type: 'string' },
+            variables: { type: 'object', additionalProperties: { type: 'string' } }
+          }
+        }
       }
     });
 
@@ -293,7 +408,8 @@ export class ContentValidator implements IContentValidator {
         content: { type: 'string', minLength: 1 },
         tags: { type: 'array', items: { type: 'string' } },
         metadata: { type: 'object' },
-        relatedEntries: { type: 'array', items: { type: 'string' } }
+        relatedEntries: { type: 'array', items: { type: 'string' } },
+        updated: { type: 'string' }
       }
     });
   }
@@ -318,67 +434,72 @@ export class ContentValidator implements IContentValidator {
       });
     }
 
-    return errors;
-  }
-
-  private checkTemplateSyntax(content: string): IValidationError[] {
-    const errors: IValidationError[] = [];
-    
-    if (!content) {
-      return errors;
-    }
-    
-    const lines = content.split('\n');
-
-    // Check for unmatched brackets
-    let openBrackets = 0;
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i];
-      if (line) {
-        openBrackets += (line.match(/\{\{/g) || []).length;
-        openBrackets -= (line.match(/\}\}/g) || []).length;
-      }
-
-      if (openBrackets < 0) {
-        errors.push({
-          path: `line ${i + 1}`,
-          message: 'Unmatched closing brackets }}',
-          type: 'syntax'
-        });
-        openBrackets = 0;
-      }
-    }
-
-    if (openBrackets > 0) {
+    const strategies = ['override', 'extend', 'final'];
+    if (variable.merge !== undefined && !strategies.includes(variable.merge)) {
       errors.push({
-        path: 'content',
-        message: 'Unmatched opening brackets {{',
-        type: 'syntax'
+        path: `${path}.merge`,
+        message: `Invalid merge strategy. Must be one of: ${strategies.join(', ')}`,
+        type: 'invalid'
       });
     }
 
-    // Check for unclosed conditionals
-    const ifCount = (content.match(/\{\{#if/g) || []).length;
-    const endIfCount = (content.match(/\{\{\/if\}\}/g) || []).length;
-    if (ifCount !== endIfCount) {
+    const custom = variable.validation?.custom;
+    if (custom && !this.validators.has(custom)) {
       errors.push({
-        path: 'content',
-        message: 'Unmatched conditional blocks',
-        type: 'syntax'
+        path: `${path}.validation.custom`,
+        message: `Unknown custom validator '${custom}'`,
+        type: 'invalid'
       });
     }
 
-    // Check for unclosed loops
-    const eachCount = (content.match(/\{\{#each/g) || []).length;
-    const endEachCount = (content.match(/\{\{\/each\}\}/g) || []).length;
-    if (eachCount !== endEachCount) {
-      errors.push({
-        path: 'content',
-        message: 'Unmatched loop blocks',
-        type: 'syntax'
-      });
+    return errors;
+  }
+
+  /**
+   * Reports syntax errors, unknown filters and, when the available partial
+   * ids are known, includes of partials that do not exist.
+   */
+  private checkTemplateSyntax(
+    template: ISDLCTemplate,
+    partialIds?: ReadonlySet<string>
+  ): IValidationError[] {
+    if (!template.content) {
+      return [];
     }
 
+    const ast = this.parser.parse(template.content);
+    const errors: IValidationError[] = ast.errors.map((error) => ({
+      path: `line ${error.line}, column ${error.column}`,
+      message: error.message,
+      type: 'syntax' as const
+    }));
+
+    // Check that every filter in {{value | filter}} chains is registered
+    walkTemplate(ast.body, (node) => {
+      if (node.type === 'partial') {
+        const path = `line ${node.position.line}, column ${node.position.column}`;
+        if (node.name === 'parent') return;
+
+        if (node.name === template.id) {
+          errors.push({ path, message: `Partial '${node.name}' includes itself`, type: 'invalid' });
+        } else if (partialIds && !partialIds.has(node.name)) {
+          errors.push({ path, message: `Unknown partial '${node.name}'`, type: 'invalid' });
+        }
+        return;
+      }
+
+      if (node.type !== 'variable') return;
+      for (const call of node.filters) {
+        if (!this.filters.has(call.name)) {
+          errors.push({
+            path: `line ${node.position.line}, column ${node.position.column}`,
+            message: `Unknown filter '${call.name}'`,
+            type: 'invalid'
+          });
+        }
+      }
+    });
+
     return errors;
   }
 
@@ -401,10 +522,7 @@ export class ContentValidator implements IContentValidator {
     }
   }
 
-  private validateVariableValue(
-    variable: ITemplateVariable,
-    value: unknown
-  ): IValidationError[] {
+  private validateVariableValue(variable: ITemplateVariable, value: unknown): IValidationError[] {
     const errors: IValidationError[] = [];
     const validation = variable.validation;
 
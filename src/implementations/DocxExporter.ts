@@ -0,0 +1,306 @@
+import { Lexer } from 'marked';
+import type { Token, Tokens } from 'marked';
+import type { IDocxExportOptions } from '../types/ContentTypes.js';
+import { createZip } from '../utils/zip.js';
+import { escapeXml, isLineBreakTag } from '../utils/xml.js';
+
+interface IRunFormat {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  link?: boolean;
+}
+
+const WORD_NAMESPACES =
+  'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" ' +
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+const CONTENT_TYPES_XML = `${XML_HEADER}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS_XML = `${XML_HEADER}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const HEADING_SIZES = [32, 28, 26, 24, 22, 22]; // Half-points for Heading1..Heading6
+
+const STYLES_XML = `${XML_HEADER}
+<w:styles ${WORD_NAMESPACES}>
+<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+${HEADING_SIZES.map(
+  (size, index) =>
+    `<w:style w:type="paragraph" w:styleId="Heading${index + 1}"><w:name w:val="heading ${index + 1}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="${index}"/></w:pPr><w:rPr><w:b/><w:sz w:val="${size}"/></w:rPr></w:style>`
+).join('\n')}
+<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="720"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Code"><w:name w:val="Code"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="0"/><w:shd w:val="clear" w:color="auto" w:fill="F3F4F6"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/><w:sz w:val="20"/></w:rPr></w:style>
+<w:style w:type="character" w:styleId="Hyperlink"><w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr></w:style>
+<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders><w:top w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:left w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:bottom w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:right w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideH w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="auto"/></w:tblBorders></w:tblPr></w:style>
+</w:styles>`;
+
+const SECTION_XML =
+  '<w:sectPr><w:pgSz w:w="12240" w:h="15840"/>' +
+  '<w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>';
+
+/**
+ * Converts Markdown into a WordprocessingML (.docx) package without any
+ * external tooling. Headings map to Word heading styles, so the document
+ * outline and generated tables of contents work in Word.
+ */
+export class DocxExporter {
+  private links: string[] = [];
+
+  export(markdown: string, options: IDocxExportOptions = {}): Buffer {
+    const document = this.renderDocument(markdown);
+
+    return createZip([
+      { name: '[Content_Types].xml', data: CONTENT_TYPES_XML },
+      { name: '_rels/.rels', data: PACKAGE_RELS_XML },
+      { name: 'docProps/core.xml', data: this.renderCoreProperties(options) },
+      { name: 'word/document.xml', data: document },
+      { name: 'word/styles.xml', data: STYLES_XML },
+      { name: 'word/_rels/document.xml.rels', data: this.renderDocumentRelationships() }
+    ]);
+  }
+
+  /**
+   * Returns the `word/document.xml` part for the given Markdown. Hyperlink
+   * targets are collected for the relationships part as a side effect.
+   */
+  renderDocument(markdown: string): string {
+    this.links = [];
+    const body = this.renderBlocks(new Lexer({ gfm: true }).lex(markdown), 0);
+
+    return `${XML_HEADER}\n<w:document ${WORD_NAMESPACES}>\n<w:body>\n${body}${SECTION_XML}\n</w:body>\n</w:document>\n`;
+  }
+
+  private renderBlocks(tokens: Token[], depth: number): string {
+    let xml = '';
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'heading':
+          xml += this.paragraph(
+            this.renderInline(token.tokens ?? []),
+            `<w:pStyle w:val="Heading${token.depth}"/>`
+          );
+          break;
+
+        case 'paragraph':
+          xml += this.paragraph(this.renderInline(token.tokens ?? []));
+          break;
+
+        case 'text':
+          xml += this.paragraph(this.renderInline((token as Tokens.Text).tokens ?? [token]));
+          break;
+
+        case 'list':
+          xml += this.renderList(token as Tokens.List, depth);
+          break;
+
+        case 'table':
+          xml += this.renderTable(token as Tokens.Table);
+          break;
+
+        case 'code':
+          for (const line of (token as Tokens.Code).text.split('\n')) {
+            xml += this.paragraph(this.run(escapeXml(line), {}), '<w:pStyle w:val="Code"/>');
+          }
+          break;
+
+        case 'blockquote':
+          for (const inner of (token as Tokens.Blockquote).tokens) {
+            if (inner.type === 'paragraph') {
+              xml += this.paragraph(
+                this.renderInline(inner.tokens ?? []),
+                '<w:pStyle w:val="Quote"/>'
+              );
+            }
+          }
+          break;
+
+        case 'hr':
+          xml += this.paragraph(
+            '',
+            '<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>'
+          );
+          break;
+      }
+    }
+
+    return xml;
+  }
+
+  /**
+   * Lists become indented paragraphs with a literal marker. Task items use
+   * ballot boxes so checklists print as checklists.
+   */
+  private renderList(list: Tokens.List, depth: number): string {
+    const start = typeof list.start === 'number' ? list.start : 1;
+    const indent = `<w:ind w:left="${720 * (depth + 1)}" w:hanging="360"/>`;
+    let xml = '';
+
+    list.items.forEach((item, index) => {
+      let marker = list.ordered ? `${start + index}.` : '•';
+      if (item.task) {
+        marker = item.checked ? '☒' : '☐';
+      }
+
+      const [first, ...rest] = item.tokens;
+      const content =
+        first && (first.type === 'text' || first.type === 'paragraph') ? first : undefined;
+      const runs = content ? this.renderInline((content as Tokens.Text).tokens ?? [content]) : '';
+
+      xml += this.paragraph(
+        this.run(`${marker}\t`, {}) + runs,
+        `<w:pStyle w:val="ListParagraph"/>${indent}`
+      );
+      xml += this.renderBlocks(content ? rest : item.tokens, depth + 1);
+    });
+
+    return xml;
+  }
+
+  private renderTable(table: Tokens.Table): string {
+    const alignment = (index: number) => {
+      const align = table.align[index];
+      return align ? `<w:jc w:val="${align}"/>` : '';
+    };
+
+    const cell = (tokens: Token[], index: number, bold: boolean) =>
+      '<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>' +
+      this.paragraph(this.renderInline(tokens, { bold }), alignment(index)).trimEnd() +
+      '</w:tc>';
+
+    const header =
+      '<w:tr><w:trPr><w:tblHeader/></w:trPr>' +
+      table.header.map((column, index) => cell(column.tokens, index, true)).join('') +
+      '</w:tr>';
+    const rows = table.rows.map(
+      (row) =>
+        '<w:tr>' +
+        row.map((column, index) => cell(column.tokens, index, false)).join('') +
+        '</w:tr>'
+    );
+
+    return (
+      '<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="0" w:type="auto"/></w:tblPr>' +
+      `<w:tblGrid>${'<w:gridCol/>'.repeat(table.header.length)}</w:tblGrid>\n` +
+      [header, ...rows].join('\n') +
+      '\n</w:tbl>\n'
+    );
+  }
+
+  private renderInline(tokens: Token[], format: IRunFormat = {}): string {
+    let xml = '';
+
+    for (const token of tokens) {
+      switch (token.type) {
+        case 'text': {
+          // Text tokens may carry nested inline tokens (e.g. in list items)
+          const text = token as Tokens.Text;
+          xml += text.tokens ? this.renderInline(text.tokens, format) : this.run(text.text, format);
+          break;
+        }
+        case 'escape':
+          // Like text tokens, escape tokens arrive HTML-escaped already
+          xml += this.run(token.text, format);
+          break;
+        case 'strong':
+          xml += this.renderInline(token.tokens ?? [], { ...format, bold: true });
+          break;
+        case 'em':
+          xml += this.renderInline(token.tokens ?? [], { ...format, italic: true });
+          break;
+        case 'del':
+          xml += this.renderInline(token.tokens ?? [], { ...format, strike: true });
+          break;
+        case 'codespan':
+          xml += this.run(token.text, { ...format, code: true });
+          break;
+        case 'br':
+          xml += '<w:r><w:br/></w:r>';
+          break;
+        case 'html':
+          // Other inline tags only carry formatting Word cannot use
+          if (isLineBreakTag(token.raw)) {
+            xml += '<w:r><w:br/></w:r>';
+          }
+          break;
+        case 'link': {
+          const link = token as Tokens.Link;
+          // In-document anchors have no bookmark to point at, so keep their text only
+          if (link.href.startsWith('#')) {
+            xml += this.renderInline(link.tokens, format);
+          } else {
+            this.links.push(link.href);
+            const runs = this.renderInline(link.tokens, { ...format, link: true });
+            xml += `<w:hyperlink r:id="rIdLink${this.links.length}">${runs}</w:hyperlink>`;
+          }
+          break;
+        }
+      }
+    }
+
+    return xml;
+  }
+
+  /**
+   * Text passed in must already be XML-escaped; marked escapes text, escape
+   * and code span tokens itself.
+   */
+  private run(text: string, format: IRunFormat): string {
+    const properties = [
+      format.link ? '<w:rStyle w:val="Hyperlink"/>' : '',
+      format.bold ? '<w:b/>' : '',
+      format.italic ? '<w:i/>' : '',
+      format.strike ? '<w:strike/>' : '',
+      format.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas" w:cs="Consolas"/>' : ''
+    ].join('');
+
+    const pieces = text
+      .split('\t')
+      .map((piece) => (piece ? `<w:t xml:space="preserve">${piece}</w:t>` : ''));
+    return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${pieces.join('<w:tab/>')}</w:r>`;
+  }
+
+  private paragraph(runs: string, properties = ''): string {
+    return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs}</w:p>\n`;
+  }
+
+  private renderDocumentRelationships(): string {
+    const relationships = [
+      '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+      ...this.links.map(
+        (href, index) =>
+          `<Relationship Id="rIdLink${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`
+      )
+    ];
+
+    return `${XML_HEADER}\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">\n${relationships.join('\n')}\n</Relationships>`;
+  }
+
+  private renderCoreProperties(options: IDocxExportOptions): string {
+    const properties = [
+      options.title ? `<dc:title>${escapeXml(options.title)}</dc:title>` : '',
+      options.author ? `<dc:creator>${escapeXml(options.author)}</dc:creator>` : ''
+    ].join('');
+
+    return (
+      `${XML_HEADER}\n<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+      `xmlns:dc="http://purl.org/dc/elements/1.1/">${properties}</cp:coreProperties>`
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import type { ExpressionNode } from '../types/TemplateAst.js';
+
+export type PathResolver = (segments: string[]) => unknown;
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'constructor', 'prototype']);
+
+/**
+ * Reads a property the way template expressions see it: own properties of
+ * objects plus `length` of strings and arrays. Prototype members are never
+ * reachable, which keeps templates from calling into host objects.
+ */
+export function readProperty(target: unknown, key: string): unknown {
+  if (target === null || target === undefined) {
+    return undefined;
+  }
+
+  if (key === 'length' && (typeof target === 'string' || Array.isArray(target))) {
+    return target.length;
+  }
+
+  if (typeof target !== 'object' || BLOCKED_PROPERTIES.has(key)) {
+    return undefined;
+  }
+
+  return Object.prototype.hasOwnProperty.call(target, key)
+    ? (target as Record<string, unknown>)[key]
+    : undefined;
+}
+
+/**
+ * Evaluates expression ASTs produced by ExpressionParser. Variable access is
+ * delegated to the caller's resolver so scoping stays with the renderer.
+ */
+export class ExpressionEvaluator {
+  evaluate(node: ExpressionNode, resolve: PathResolver): unknown {
+    switch (node.type) {
+      case 'literal':
+        return node.value;
+
+      case 'path':
+        return resolve(node.segments);
+
+      case 'unary': {
+        const argument = this.evaluate(node.argument, resolve);
+        if (node.operator === '!') {
+          return !this.isTruthy(argument);
+        }
+        return typeof argument === 'number' ? -argument : undefined;
+      }
+
+      case 'logical': {
+        const left = this.isTruthy(this.evaluate(node.left, resolve));
+        if (node.operator === '&&') {
+          return left && this.isTruthy(this.evaluate(node.right, resolve));
+        }
+        return left || this.isTruthy(this.evaluate(node.right, resolve));
+      }
+
+      case 'binary':
+        return this.compare(
+          node.operator,
+          this.evaluate(node.left, resolve),
+          this.evaluate(node.right, resolve)
+        );
+    }
+  }
+
+  isTruthy(value: unknown): boolean {
+    if (value === null || value === undefined) return false;
+    if (typeof value === 'boolean') return value;
+    if (typeof value === 'number') return value !== 0;
+    if (typeof value === 'string') return value.length > 0;
+    if (Array.isArray(value)) return value.length > 0;
+    return true;
+  }
+
+  private compare(operator: string, left: unknown, right: unknown): boolean {
+    const a = left instanceof Date ? left.getTime() : left;
+    const b = right instanceof Date ? right.getTime() : right;
+
+    switch (operator) {
+      case '==':
+        return a === b;
+      case '!=':
+        return a !== b;
+    }
+
+    // Ordering only makes sense between values of the same primitive type
+    if (typeof a === 'number' && typeof b === 'number') {
+      return this.order(operator, a, b);
+    }
+    if (typeof a === 'string' && typeof b === 'string') {
+      return this.order(operator, a, b);
+    }
+    return false;
+  }
+
+  private order<T extends number | string>(operator: string, a: T, b: T): boolean {
+    switch (operator) {
+      case '<':
+        return a < b;
+      case '<=':
+        return a <= b;
+      case '>':
+        return a > b;
+      case '>=':
+        return a >= b;
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,315 @@
+import type { ExpressionNode, IBinaryExpression, IFilterCall } from '../types/TemplateAst.js';
+
+export class ExpressionSyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly offset: number
+  ) {
+    super(message);
+    this.name = 'ExpressionSyntaxError';
+  }
+}
+
+type ExpressionTokenType = 'number' | 'string' | 'identifier' | 'operator' | 'punctuation' | 'eof';
+
+interface IExpressionToken {
+  type: ExpressionTokenType;
+  value: string;
+  offset: number;
+}
+
+const OPERATORS = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '<', '>', '!', '-', '|'];
+const PUNCTUATION = ['(', ')', '[', ']', '.'];
+const KEYWORDS: Record<string, boolean | null> = { true: true, false: false, null: null };
+
+const COMPARISON_OPERATORS: Record<string, IBinaryExpression['operator']> = {
+  '==': '==',
+  '===': '==',
+  '!=': '!=',
+  '!==': '!=',
+  '<': '<',
+  '<=': '<=',
+  '>': '>',
+  '>=': '>='
+};
+
+/**
+ * Parses the condition language used by `{{#if}}`, `{{#unless}}` and
+ * `{{#with}}`: literals, property paths, comparisons, `!`, `&&`, `||` and
+ * parentheses. Expressions are evaluated by walking the AST, never with eval.
+ */
+export class ExpressionParser {
+  private tokens: IExpressionToken[] = [];
+  private index = 0;
+
+  parse(source: string): ExpressionNode {
+    this.tokens = this.tokenize(source);
+    this.index = 0;
+
+    if (this.peek().type === 'eof') {
+      throw new ExpressionSyntaxError('Expected an expression', 0);
+    }
+
+    const expression = this.parseOr();
+    const trailing = this.peek();
+    if (trailing.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected '${trailing.value}'`, trailing.offset);
+    }
+
+    return expression;
+  }
+
+  /**
+   * Parses an output expression followed by an optional filter chain, as in
+   * `{{date | format "YYYY-MM-DD"}}`. Filter arguments are space separated
+   * literals or paths.
+   */
+  parsePipeline(source: string): { expression: ExpressionNode; filters: IFilterCall[] } {
+    this.tokens = this.tokenize(source);
+    this.index = 0;
+
+    if (this.peek().type === 'eof') {
+      throw new ExpressionSyntaxError('Expected an expression', 0);
+    }
+
+    const expression = this.parseOr();
+    const filters: IFilterCall[] = [];
+
+    while (this.matchOperator('|')) {
+      const name = this.next();
+      if (name.type !== 'identifier') {
+        throw new ExpressionSyntaxError('Expected a filter name after "|"', name.offset);
+      }
+
+      const args: ExpressionNode[] = [];
+      let token = this.peek();
+      while (token.type !== 'eof' && !(token.type === 'operator' && token.value === '|')) {
+        args.push(this.parseUnary());
+        token = this.peek();
+      }
+
+      filters.push({ name: name.value, args });
+    }
+
+    const trailing = this.peek();
+    if (trailing.type !== 'eof') {
+      throw new ExpressionSyntaxError(`Unexpected '${trailing.value}'`, trailing.offset);
+    }
+
+    return { expression, filters };
+  }
+
+  private parseOr(): ExpressionNode {
+    let left = this.parseAnd();
+    while (this.matchOperator('||')) {
+      left = { type: 'logical', operator: '||', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ExpressionNode {
+    let left = this.parseComparison();
+    while (this.matchOperator('&&')) {
+      left = { type: 'logical', operator: '&&', left, right: this.parseComparison() };
+    }
+    return left;
+  }
+
+  private parseComparison(): ExpressionNode {
+    let left = this.parseUnary();
+    let operator = this.peekComparison();
+    while (operator) {
+      this.index++;
+      left = {
+        type: 'binary',
+        operator,
+        left,
+        right: this.parseUnary()
+      };
+      operator = this.peekComparison();
+    }
+    return left;
+  }
+
+  private parseUnary(): ExpressionNode {
+    if (this.matchOperator('!')) {
+      return { type: 'unary', operator: '!', argument: this.parseUnary() };
+    }
+    if (this.matchOperator('-')) {
+      return { type: 'unary', operator: '-', argument: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): ExpressionNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'literal', value: Number(token.value) };
+
+      case 'string':
+        return { type: 'literal', value: token.value };
+
+      case 'identifier':
+        if (Object.prototype.hasOwnProperty.call(KEYWORDS, token.value)) {
+          return { type: 'literal', value: KEYWORDS[token.value] ?? null };
+        }
+        return this.parsePath(token.value);
+
+      case 'punctuation':
+        if (token.value === '(') {
+          const inner = this.parseOr();
+          this.expectPunctuation(')');
+          return inner;
+        }
+        break;
+
+      case 'eof':
+        throw new ExpressionSyntaxError('Unexpected end of expression', token.offset);
+    }
+
+    throw new ExpressionSyntaxError(`Unexpected '${token.value}'`, token.offset);
+  }
+
+  private parsePath(head: string): ExpressionNode {
+    const segments = [head];
+
+    let accessor = this.peek();
+    while (accessor.type === 'punctuation' && (accessor.value === '.' || accessor.value === '[')) {
+      this.next();
+      if (accessor.value === '.') {
+        const property = this.next();
+        if (property.type !== 'identifier' && property.type !== 'number') {
+          throw new ExpressionSyntaxError('Expected a property name after "."', property.offset);
+        }
+        segments.push(property.value);
+      } else {
+        const key = this.next();
+        if (key.type !== 'number' && key.type !== 'string') {
+          throw new ExpressionSyntaxError('Expected a number or string index', key.offset);
+        }
+        segments.push(key.value);
+        this.expectPunctuation(']');
+      }
+      accessor = this.peek();
+    }
+
+    return { type: 'path', segments };
+  }
+
+  private tokenize(source: string): IExpressionToken[] {
+    const tokens: IExpressionToken[] = [];
+    let pos = 0;
+
+    while (pos < source.length) {
+      const char = source.charAt(pos);
+
+      if (/\s/.test(char)) {
+        pos++;
+        continue;
+      }
+
+      if (char === '"' || char === "'") {
+        let end = pos + 1;
+        let value = '';
+        while (end < source.length && source[end] !== char) {
+          if (source[end] === '\\' && end + 1 < source.length) {
+            end++;
+          }
+          value += source[end];
+          end++;
+        }
+        if (end >= source.length) {
+          throw new ExpressionSyntaxError('Unterminated string literal', pos);
+        }
+        tokens.push({ type: 'string', value, offset: pos });
+        pos = end + 1;
+        continue;
+      }
+
+      const number = source.slice(pos).match(/^\d+(?:\.\d+)?/);
+      if (number) {
+        tokens.push({ type: 'number', value: number[0], offset: pos });
+        pos += number[0].length;
+        continue;
+      }
+
+      const identifier = source.slice(pos).match(/^@?[A-Za-z_$][\w$]*/);
+      if (identifier) {
+        tokens.push({ type: 'identifier', value: identifier[0], offset: pos });
+        pos += identifier[0].length;
+        continue;
+      }
+
+      const operator = OPERATORS.find((op) => source.startsWith(op, pos));
+      if (operator) {
+        tokens.push({ type: 'operator', value: operator, offset: pos });
+        pos += operator.length;
+        continue;
+      }
+
+      if (PUNCTUATION.includes(char)) {
+        tokens.push({ type: 'punctuation', value: char, offset: pos });
+        pos++;
+        continue;
+      }
+
+      throw new ExpressionSyntaxError(`Unexpected character '${char}'`, pos);
+    }
+
+    tokens.push({ type: 'eof', value: '', offset: source.length });
+    return tokens;
+  }
+
+  // Parsing never moves past the eof token that ends every token list
+  private peek(): IExpressionToken {
+    return this.tokens[this.index] ?? { type: 'eof', value: '', offset: 0 };
+  }
+
+  private peekComparison(): IBinaryExpression['operator'] | undefined {
+    const token = this.peek();
+    return token.type === 'operator' &&
+      Object.prototype.hasOwnProperty.call(COMPARISON_OPERATORS, token.value)
+      ? COMPARISON_OPERATORS[token.value]
+      : undefined;
+  }
+
+  private next(): IExpressionToken {
+    const token = this.peek();
+    if (token.type !== 'eof') {
+      this.index++;
+    }
+    return token;
+  }
+
+  private matchOperator(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'operator' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private matchPunctuation(value: string): boolean {
+    const token = this.peek();
+    if (token.type === 'punctuation' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectPunctuation(value: string): void {
+    const token = this.peek();
+    if (!this.matchPunctuation(value)) {
+      throw new ExpressionSyntaxError(
+        token.type === 'eof'
+          ? `Expected '${value}'`
+          : `Expected '${value}' but found '${token.value}'`,
+        token.offset
+      );
+    }
+  }
+}
@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import type { IEmbeddingProvider } from '../types/ContentTypes.js';
+import { tokenize } from './TextAnalyzer.js';
+
+const DEFAULT_DIMENSIONS = 512;
+// Letter trigrams let related words ("requirement", "prerequisite") overlap
+const TRIGRAM_WEIGHT = 0.5;
+
+/**
+ * Offline embeddings built with the hashing trick: stemmed words and their
+ * letter trigrams are hashed into a fixed number of signed dimensions,
+ * weighted by TF-IDF and normalized to unit length. Needs no model or
+ * network; plug in a model-backed provider for real semantics.
+ *
+ * Document frequencies come from the corpus passed to `fit`. Until then
+ * every feature has the same IDF, so vectors are weighted by log term
+ * frequency alone. The id names the corpus, so vectors stored for another
+ * corpus are embedded again.
+ */
+export class HashedEmbeddingProvider implements IEmbeddingProvider {
+  private documentFrequency = new Map<string, number>();
+  private documents = 0;
+  private corpus = '';
+
+  constructor(readonly dimensions: number = DEFAULT_DIMENSIONS) {}
+
+  get id(): string {
+    const id = `hashed-tfidf-${this.dimensions}`;
+    return this.corpus ? `${id}-${this.corpus}` : id;
+  }
+
+  fit(corpus: string[]): void {
+    this.documentFrequency = new Map();
+    for (const text of corpus) {
+      for (const feature of this.features(text).keys()) {
+        this.documentFrequency.set(feature, (this.documentFrequency.get(feature) ?? 0) + 1);
+      }
+    }
+    this.documents = corpus.length;
+    this.corpus = createHash('sha256').update(corpus.join('\0')).digest('hex').slice(0, 12);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, count] of this.features(text)) {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign so colliding features tend to cancel out
+      const sign = hash & 0x80000000 ? -1 : 1;
+      const bucket = hash % this.dimensions;
+      vector[bucket] = (vector[bucket] ?? 0) + sign * (1 + Math.log(count)) * this.idf(feature);
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map((value) => value / norm) : vector;
+  }
+
+  // Features of a text with their weighted counts
+  private features(text: string): Map<string, number> {
+    const features = new Map<string, number>();
+    for (const token of tokenize(text)) {
+      features.set(`w:${token.term}`, (features.get(`w:${token.term}`) ?? 0) + 1);
+
+      const padded = `^${token.term}$`;
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        const trigram = `t:${padded.slice(i, i + 3)}`;
+        features.set(trigram, (features.get(trigram) ?? 0) + TRIGRAM_WEIGHT);
+      }
+    }
+    return features;
+  }
+
+  // Smoothed, so features missing from the corpus weigh the most and none weigh 0
+  private idf(feature: string): number {
+    return Math.log((1 + this.documents) / (1 + (this.documentFrequency.get(feature) ?? 0))) + 1;
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
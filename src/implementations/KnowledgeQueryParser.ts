@@ -0,0 +1,102 @@
+import type { KnowledgeQueryField, KnowledgeQueryNode } from '../types/KnowledgeQuery.js';
+import { analyze } from './TextAnalyzer.js';
+
+interface IQueryWord {
+  raw: string;
+  quoted: boolean;
+  end: number;
+}
+
+const FIELDS: ReadonlySet<string> = new Set<KnowledgeQueryField>(['tag', 'phase', 'category']);
+const FIELD_PATTERN = /^(\w+):([\s\S]*)$/;
+
+/**
+ * Parses the knowledge search query language:
+ *
+ *   requirment elicitation "use cases" -legacy tag:security OR phase:design
+ *
+ * Malformed input never fails. An unclosed quote runs to the end of the
+ * query, unknown `field:` prefixes are searched as words, and words made
+ * only of stop words are dropped. Returns undefined when nothing is left.
+ */
+export class KnowledgeQueryParser {
+  parse(text: string): KnowledgeQueryNode | undefined {
+    let current: KnowledgeQueryNode[] = [];
+    const alternatives = [current];
+    let i = 0;
+
+    while (i < text.length) {
+      if (/\s/.test(text.charAt(i))) {
+        i++;
+        continue;
+      }
+
+      const negated = text[i] === '-' && i + 1 < text.length && !/\s/.test(text.charAt(i + 1));
+      const word = this.readWord(text, negated ? i + 1 : i);
+      i = word.end;
+
+      if (!negated && !word.quoted && word.raw === 'OR') {
+        current = [];
+        alternatives.push(current);
+        continue;
+      }
+
+      const node = this.toNode(word);
+      if (node) {
+        current.push(negated ? { type: 'not', operand: node } : node);
+      }
+    }
+
+    const groups = alternatives.flatMap((group): KnowledgeQueryNode[] => {
+      const [first, ...rest] = group;
+      if (!first) return [];
+      return [rest.length === 0 ? first : { type: 'and', operands: group }];
+    });
+
+    if (groups.length === 0) {
+      return undefined;
+    }
+    return groups.length === 1 ? groups[0] : { type: 'or', operands: groups };
+  }
+
+  /**
+   * Reads a quoted phrase or a run of non-space characters starting at
+   * `start`. Quotes inside a word, as in tag:"data privacy", may contain
+   * spaces.
+   */
+  private readWord(text: string, start: number): IQueryWord {
+    if (text[start] === '"') {
+      const close = text.indexOf('"', start + 1);
+      const end = close === -1 ? text.length : close;
+      return { raw: text.slice(start + 1, end), quoted: true, end: end + 1 };
+    }
+
+    let end = start;
+    while (end < text.length && !/\s/.test(text.charAt(end))) {
+      if (text[end] === '"') {
+        const close = text.indexOf('"', end + 1);
+        end = close === -1 ? text.length : close + 1;
+      } else {
+        end++;
+      }
+    }
+    return { raw: text.slice(start, end), quoted: false, end };
+  }
+
+  private toNode(word: IQueryWord): KnowledgeQueryNode | undefined {
+    if (word.quoted) {
+      const value = word.raw.trim();
+      return analyze(value).length > 0 ? { type: 'phrase', value } : undefined;
+    }
+
+    const [, name = '', fieldValue = ''] = FIELD_PATTERN.exec(word.raw) ?? [];
+    const field = name.toLowerCase();
+    if (FIELDS.has(field)) {
+      const value = fieldValue.replace(/"/g, '').trim();
+      return value ? { type: 'field', field: field as KnowledgeQueryField, value } : undefined;
+    }
+
+    const value = word.raw.replace(/"/g, '');
+    return analyze(value).length > 0 ? { type: 'term', value } : undefined;
+  }
+}
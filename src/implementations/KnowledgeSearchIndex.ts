@@ -0,0 +1,307 @@
+import type { IKnowledgeEntry, IKnowledgeHighlights } from '../types/ContentTypes.js';
+import type { KnowledgeQueryField, KnowledgeQueryNode } from '../types/KnowledgeQuery.js';
+import { analyze, editDistance, stem, tokenize, type IToken } from './TextAnalyzer.js';
+
+type Field = 'title' | 'tags' | 'content';
+
+export interface IScoredEntry {
+  id: string;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface IKnowledgeSearchOptions {
+  fuzzy?: boolean; // Match misspelled words by edit distance, default true
+}
+
+const FIELDS: Field[] = ['title', 'tags', 'content'];
+
+// Title matches count most, then tags, then body text
+export const FIELD_BOOSTS: Readonly<Record<Field, number>> = { title: 3, tags: 2, content: 1 };
+
+const K1 = 1.2;
+const B = 0.75;
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+/**
+ * Inverted index over knowledge entries scored with BM25F: term frequencies
+ * are normalized per field, weighted by the field boosts and then saturated
+ * once, so a term repeated in a long body cannot outweigh a title match.
+ */
+export class KnowledgeSearchIndex {
+  private entries: Map<string, IKnowledgeEntry> = new Map();
+  // term -> entry id -> occurrences per field
+  private postings: Map<string, Map<string, Record<Field, number>>> = new Map();
+  // entry id -> terms of each field in order, for phrase matching
+  private fieldTerms: Map<string, Record<Field, string[]>> = new Map();
+  // indexed word -> its term, for fuzzy matching
+  private vocabulary: Map<string, string> = new Map();
+  private averageLengths: Record<Field, number> = { title: 0, tags: 0, content: 0 };
+
+  build(entries: IKnowledgeEntry[]): void {
+    this.entries.clear();
+    this.postings.clear();
+    this.fieldTerms.clear();
+    this.vocabulary.clear();
+    const totals: Record<Field, number> = { title: 0, tags: 0, content: 0 };
+
+    for (const entry of entries) {
+      const fieldTerms: Record<Field, string[]> = { title: [], tags: [], content: [] };
+
+      for (const field of FIELDS) {
+        const text = this.fieldText(entry, field);
+        const tokens = tokenize(text);
+        fieldTerms[field] = tokens.map((token) => token.term);
+        totals[field] += tokens.length;
+
+        for (const token of tokens) {
+          this.vocabulary.set(text.slice(token.start, token.end).toLowerCase(), token.term);
+          const byEntry = this.postings.get(token.term) ?? new Map<string, Record<Field, number>>();
+          const counts = byEntry.get(entry.id) ?? { title: 0, tags: 0, content: 0 };
+          counts[field]++;
+          byEntry.set(entry.id, counts);
+          this.postings.set(token.term, byEntry);
+        }
+      }
+
+      this.entries.set(entry.id, entry);
+      this.fieldTerms.set(entry.id, fieldTerms);
+    }
+
+    for (const field of FIELDS) {
+      this.averageLengths[field] = entries.length > 0 ? totals[field] / entries.length : 0;
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Scores the entries matching the query, best first. Ties keep index
+   * order. Only the words and phrases an entry has to contain count toward
+   * its score; excluded words and field filters just decide whether it
+   * matches.
+   */
+  search(query: KnowledgeQueryNode, options: IKnowledgeSearchOptions = {}): IScoredEntry[] {
+    const fuzzy = options.fuzzy ?? true;
+    const expansions = new Map<string, Map<string, number>>();
+    const expand = (word: string): Map<string, number> => {
+      let terms = expansions.get(word);
+      if (!terms) {
+        terms = this.expandWord(word, fuzzy);
+        expansions.set(word, terms);
+      }
+      return terms;
+    };
+
+    // term -> weight, from the words and phrases outside any exclusion
+    const scoringTerms = new Map<string, number>();
+    const collect = (node: KnowledgeQueryNode): void => {
+      if (node.type === 'term') {
+        for (const word of this.words(node.value)) {
+          for (const [term, weight] of expand(word)) {
+            scoringTerms.set(term, Math.max(weight, scoringTerms.get(term) ?? 0));
+          }
+        }
+      } else if (node.type === 'phrase') {
+        for (const term of analyze(node.value)) {
+          scoringTerms.set(term, 1);
+        }
+      } else if (node.type === 'and' || node.type === 'or') {
+        node.operands.forEach(collect);
+      }
+    };
+    collect(query);
+
+    const results: IScoredEntry[] = [];
+    for (const id of this.entries.keys()) {
+      if (!this.matches(id, query, expand)) {
+        continue;
+      }
+
+      const scored: IScoredEntry = { id, score: 0, matchedTerms: [] };
+      for (const [term, weight] of scoringTerms) {
+        const byEntry = this.postings.get(term);
+        const counts = byEntry?.get(id);
+        if (!byEntry || !counts) {
+          continue;
+        }
+        const idf = Math.log(1 + (this.size - byEntry.size + 0.5) / (byEntry.size + 0.5));
+        const weighted = this.weightedFrequency(id, counts);
+        scored.score += (weight * idf * weighted * (K1 + 1)) / (weighted + K1);
+        scored.matchedTerms.push(term);
+      }
+      results.push(scored);
+    }
+
+    // Array sort is stable, so equal scores stay in index order
+    return results.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Marks matched words with `**` in the title and in a snippet of the
+   * content around the first match.
+   */
+  highlight(entry: IKnowledgeEntry, terms: string[]): IKnowledgeHighlights {
+    const matched = new Set(terms);
+    const contentTokens = tokenize(entry.content);
+    const first = contentTokens.find((token) => matched.has(token.term));
+
+    let start = 0;
+    if (first && first.start > SNIPPET_LEAD) {
+      // Start on a word boundary shortly before the first match
+      start = this.lastWhitespace(entry.content, first.start - SNIPPET_LEAD) + 1;
+    }
+    let end = Math.min(entry.content.length, start + SNIPPET_LENGTH);
+    if (end < entry.content.length) {
+      const boundary = this.lastWhitespace(entry.content, end);
+      end = boundary > start ? boundary : end;
+    }
+
+    const snippet = this.mark(
+      entry.content,
+      contentTokens.filter((token) => token.start >= start && token.end <= end),
+      matched,
+      start,
+      end
+    );
+
+    return {
+      title: this.mark(entry.title, tokenize(entry.title), matched, 0, entry.title.length),
+      snippet: `${start > 0 ? '…' : ''}${snippet.replace(/\s+/g, ' ').trim()}${
+        end < entry.content.length ? '…' : ''
+      }`
+    };
+  }
+
+  private matches(
+    id: string,
+    node: KnowledgeQueryNode,
+    expand: (word: string) => Map<string, number>
+  ): boolean {
+    switch (node.type) {
+      case 'term':
+        return this.words(node.value).every((word) =>
+          [...expand(word).keys()].some((term) => this.postings.get(term)?.has(id))
+        );
+      case 'phrase':
+        return this.containsPhrase(id, analyze(node.value));
+      case 'field': {
+        const entry = this.entries.get(id);
+        return entry !== undefined && this.matchesField(entry, node.field, node.value);
+      }
+      case 'not':
+        return !this.matches(id, node.operand, expand);
+      case 'and':
+        return node.operands.every((operand) => this.matches(id, operand, expand));
+      case 'or':
+        return node.operands.some((operand) => this.matches(id, operand, expand));
+    }
+  }
+
+  /**
+   * Terms a query word matches with their weights: its own stem when the
+   * index knows it, otherwise, with fuzzy matching, the terms of indexed
+   * words within a few edits, weighted down by distance.
+   */
+  private expandWord(word: string, fuzzy: boolean): Map<string, number> {
+    const term = stem(word);
+    const terms = new Map([[term, 1]]);
+    const maxEdits = word.length <= 3 ? 0 : word.length <= 6 ? 1 : 2;
+    if (!fuzzy || maxEdits === 0 || this.postings.has(term)) {
+      return terms;
+    }
+
+    for (const [known, knownTerm] of this.vocabulary) {
+      const distance = editDistance(word, known, maxEdits);
+      if (distance <= maxEdits) {
+        const weight = 1 / (1 + distance);
+        terms.set(knownTerm, Math.max(weight, terms.get(knownTerm) ?? 0));
+      }
+    }
+    return terms;
+  }
+
+  private containsPhrase(id: string, phrase: string[]): boolean {
+    const fieldTerms = this.fieldTerms.get(id);
+    if (!fieldTerms) {
+      return false;
+    }
+    return FIELDS.some((field) => {
+      const terms = fieldTerms[field];
+      for (let start = 0; start + phrase.length <= terms.length; start++) {
+        if (phrase.every((term, i) => terms[start + i] === term)) {
+          return true;
+        }
+      }
+      return false;
+    });
+  }
+
+  private matchesField(entry: IKnowledgeEntry, field: KnowledgeQueryField, value: string): boolean {
+    const expected = value.toLowerCase();
+    switch (field) {
+      case 'tag':
+        return entry.tags.some((tag) => tag.toLowerCase() === expected);
+      case 'phase':
+        return entry.phase?.toLowerCase() === expected;
+      default:
+        return entry.category.toLowerCase() === expected;
+    }
+  }
+
+  // Lowercase words of a query term, stop words left out
+  private words(text: string): string[] {
+    return tokenize(text).map((token) => text.slice(token.start, token.end).toLowerCase());
+  }
+
+  private weightedFrequency(id: string, counts: Record<Field, number>): number {
+    const fieldTerms = this.fieldTerms.get(id);
+    if (!fieldTerms) {
+      return 0;
+    }
+    let weighted = 0;
+    for (const field of FIELDS) {
+      if (counts[field] === 0) {
+        continue;
+      }
+      const average = this.averageLengths[field] || 1;
+      const normalization = 1 - B + (B * fieldTerms[field].length) / average;
+      weighted += (FIELD_BOOSTS[field] * counts[field]) / normalization;
+    }
+    return weighted;
+  }
+
+  private mark(
+    text: string,
+    tokens: IToken[],
+    matched: ReadonlySet<string>,
+    start: number,
+    end: number
+  ): string {
+    let result = '';
+    let position = start;
+    for (const token of tokens) {
+      if (matched.has(token.term)) {
+        result += `${text.slice(position, token.start)}**${text.slice(token.start, token.end)}**`;
+        position = token.end;
+      }
+    }
+    return result + text.slice(position, end);
+  }
+
+  private lastWhitespace(text: string, before: number): number {
+    for (let i = before; i >= 0; i--) {
+      if (/\s/.test(text.charAt(i))) {
+        return i;
+      }
+    }
+    return -1;
+  }
+
+  private fieldText(entry: IKnowledgeEntry, field: Field): string {
+    return field === 'tags' ? entry.tags.join(' ') : entry[field];
+  }
+}
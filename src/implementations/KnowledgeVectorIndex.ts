@@ -0,0 +1,116 @@
+import { createHash } from 'crypto';
+import type {
+  IEmbeddingProvider,
+  IKnowledgeEntry,
+  IKnowledgeVectorIndex
+} from '../types/ContentTypes.js';
+
+export interface ISimilarEntry {
+  id: string;
+  score: number;
+}
+
+/**
+ * Embeddings of knowledge entries for nearest-neighbour search. Building
+ * reuses stored vectors whose entry text and provider are unchanged, so only
+ * new and edited entries are embedded again.
+ */
+export class KnowledgeVectorIndex {
+  private index: IKnowledgeVectorIndex = { provider: '', dimensions: 0, entries: {} };
+
+  /**
+   * Returns true when the index differs from `stored` and should be saved.
+   */
+  async build(
+    entries: IKnowledgeEntry[],
+    provider: IEmbeddingProvider,
+    stored?: IKnowledgeVectorIndex
+  ): Promise<boolean> {
+    // Fitting can change the provider id, which then invalidates stored vectors
+    provider.fit?.(entries.map(embeddingText));
+    const reusable =
+      stored?.provider === provider.id && stored.dimensions === provider.dimensions
+        ? stored.entries
+        : {};
+    const index: IKnowledgeVectorIndex = {
+      provider: provider.id,
+      dimensions: provider.dimensions,
+      entries: {}
+    };
+
+    const pending: Array<{ entry: IKnowledgeEntry; hash: string }> = [];
+    for (const entry of entries) {
+      const hash = hashText(embeddingText(entry));
+      const existing = reusable[entry.id];
+      if (existing?.hash === hash && existing.vector.length === provider.dimensions) {
+        index.entries[entry.id] = existing;
+      } else {
+        pending.push({ entry, hash });
+      }
+    }
+
+    if (pending.length > 0) {
+      const vectors = await provider.embed(pending.map(({ entry }) => embeddingText(entry)));
+      pending.forEach(({ entry, hash }, i) => {
+        index.entries[entry.id] = { hash, vector: vectors[i] ?? [] };
+      });
+    }
+
+    this.index = index;
+    // Unchanged when every stored vector was reused and none were dropped
+    return (
+      !stored ||
+      reusable !== stored.entries ||
+      pending.length > 0 ||
+      Object.keys(stored.entries).length !== this.size
+    );
+  }
+
+  clear(): void {
+    this.index = { provider: '', dimensions: 0, entries: {} };
+  }
+
+  get size(): number {
+    return Object.keys(this.index.entries).length;
+  }
+
+  toJSON(): IKnowledgeVectorIndex {
+    return this.index;
+  }
+
+  /**
+   * Entries by cosine similarity to the vector, best first, leaving out
+   * entries that are not similar at all.
+   */
+  search(vector: number[]): ISimilarEntry[] {
+    const results: ISimilarEntry[] = [];
+    for (const [id, stored] of Object.entries(this.index.entries)) {
+      const score = cosine(vector, stored.vector);
+      if (score > 0) {
+        results.push({ id, score });
+      }
+    }
+    return results.sort((a, b) => b.score - a.score);
+  }
+}
+
+function embeddingText(entry: IKnowledgeEntry): string {
+  return [entry.title, entry.tags.join(' '), entry.content].join('\n');
+}
+
+function hashText(text: string): string {
+  return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((x, i) => {
+    const y = b[i] ?? 0;
+    dot += x * y;
+    normA += x * x;
+    normB += y * y;
+  });
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,87 @@
+import type { OutputFormat } from '../types/ContentTypes.js';
+
+/**
+ * Where a variable sits in a Markdown line. Contexts combine, e.g. a link
+ * inside a table cell is both `table` and `link`.
+ */
+export interface IMarkdownContext {
+  table: boolean;
+  heading: boolean;
+  lineStart: boolean;
+  link: 'text' | 'url' | null;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;'
+};
+
+/**
+ * Classifies the Markdown context of a variable from the text that precedes
+ * it on the same source line.
+ */
+export function detectMarkdownContext(linePrefix: string): IMarkdownContext {
+  let link: IMarkdownContext['link'] = null;
+  if (/\]\([^)\s]*$/.test(linePrefix)) {
+    link = 'url';
+  } else if (/\[[^\]]*$/.test(linePrefix)) {
+    link = 'text';
+  }
+
+  return {
+    table: /^\s*\|/.test(linePrefix),
+    heading: /^\s{0,3}#{1,6}\s/.test(linePrefix),
+    lineStart: linePrefix.trim() === '',
+    link
+  };
+}
+
+export function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => HTML_ENTITIES[char] ?? char);
+}
+
+/**
+ * Escapes a value for its position in a Markdown document: inline emphasis,
+ * code and link characters everywhere, pipes and line breaks in table cells,
+ * line breaks in headings, and block markers at the start of a line. Link
+ * targets are percent-encoded instead.
+ */
+export function escapeMarkdownContext(text: string, context: IMarkdownContext): string {
+  if (context.link === 'url') {
+    return text.replace(/[\s()<>|]/g, (char) => {
+      return '%' + char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0');
+    });
+  }
+
+  let escaped = text.replace(/[\\`*_[\]<>]/g, '\\$&');
+
+  if (context.table) {
+    escaped = escaped.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+  } else if (context.heading || context.link === 'text') {
+    escaped = escaped.replace(/\s*\r?\n\s*/g, ' ');
+  }
+
+  if (context.lineStart) {
+    escaped = escaped.replace(/^(\s*)([#>+-])/, '$1\\$2').replace(/^(\s*\d+)([.)])/, '$1\\$2');
+  }
+
+  return escaped;
+}
+
+export function escapeOutput(
+  text: string,
+  format: OutputFormat,
+  context: IMarkdownContext
+): string {
+  switch (format) {
+    case 'markdown':
+      return escapeMarkdownContext(text, context);
+    case 'html':
+      return escapeHtml(text);
+    default:
+      return text;
+  }
+}
@@ -0,0 +1,158 @@
+import { injectable } from 'inversify';
+import type { ITemplateFilterRegistry, TemplateFilter } from '../types/ContentTypes.js';
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December'
+];
+
+const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) {
+    return isNaN(value.getTime()) ? undefined : value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+/**
+ * Formats a date with moment-style tokens (YYYY, YY, MMMM, MMM, MM, M, DD, D,
+ * HH, mm, ss). Dates are formatted in UTC so YAML dates such as `2024-01-15`
+ * render the same day regardless of the host time zone.
+ */
+export function formatDate(date: Date, pattern: string): string {
+  const tokens: Record<string, () => string> = {
+    YYYY: () => String(date.getUTCFullYear()),
+    YY: () => pad(date.getUTCFullYear() % 100),
+    MMMM: () => MONTH_NAMES[date.getUTCMonth()] ?? '',
+    MMM: () => (MONTH_NAMES[date.getUTCMonth()] ?? '').slice(0, 3),
+    MM: () => pad(date.getUTCMonth() + 1),
+    M: () => String(date.getUTCMonth() + 1),
+    DD: () => pad(date.getUTCDate()),
+    D: () => String(date.getUTCDate()),
+    HH: () => pad(date.getUTCHours()),
+    mm: () => pad(date.getUTCMinutes()),
+    ss: () => pad(date.getUTCSeconds())
+  };
+
+  return pattern.replace(
+    /YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|mm|ss/g,
+    (token) => tokens[token]?.() ?? token
+  );
+}
+
+/**
+ * Converts a value to its default display text: dates as YYYY-MM-DD, arrays
+ * comma-separated, and null or undefined as an empty string.
+ */
+export function stringifyValue(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  if (value instanceof Date) return formatDate(value, 'YYYY-MM-DD');
+  if (Array.isArray(value)) return value.map(stringifyValue).join(', ');
+  return String(value);
+}
+
+export function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_{}[\]()#+!|<>~]/g, '\\$&');
+}
+
+/**
+ * Lowercases text and joins its words with hyphens, dropping accents and
+ * punctuation, as used for URL slugs and heading anchors.
+ */
+export function slugify(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+export const BUILTIN_FILTERS: Record<string, TemplateFilter> = {
+  format: (value, pattern = 'YYYY-MM-DD') => {
+    const date = toDate(value);
+    return date ? formatDate(date, String(pattern)) : value;
+  },
+
+  upper: (value) => stringifyValue(value).toUpperCase(),
+
+  lower: (value) => stringifyValue(value).toLowerCase(),
+
+  title: (value) =>
+    stringifyValue(value)
+      .toLowerCase()
+      .replace(/(^|[\s-])(\p{L})/gu, (_, separator: string, letter: string) => {
+        return separator + letter.toUpperCase();
+      }),
+
+  default: (value, fallback = '') =>
+    value === undefined || value === null || value === '' ? fallback : value,
+
+  join: (value, separator = ', ') =>
+    Array.isArray(value) ? value.map(stringifyValue).join(String(separator)) : value,
+
+  truncate: (value, length = 80, suffix = '...') => {
+    const text = stringifyValue(value);
+    const max = Number(length);
+    if (text.length <= max) return text;
+    const ending = String(suffix);
+    return text.slice(0, Math.max(max - ending.length, 0)).trimEnd() + ending;
+  },
+
+  number: (value, decimals, locale = 'en-US') => {
+    const number = typeof value === 'number' ? value : Number(value);
+    if (value === null || value === '' || isNaN(number)) return value;
+    const digits = decimals === undefined ? undefined : Number(decimals);
+    return new Intl.NumberFormat(String(locale), {
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits ?? 20
+    }).format(number);
+  },
+
+  escapeMarkdown: (value) => escapeMarkdown(stringifyValue(value)),
+
+  slugify: (value) => slugify(stringifyValue(value))
+};
+
+/**
+ * Named filters available to `{{value | filter}}` expressions. The registry
+ * starts with the built-in filters; registering an existing name replaces it.
+ */
+@injectable()
+export class TemplateFilterRegistry implements ITemplateFilterRegistry {
+  private filters: Map<string, TemplateFilter> = new Map(Object.entries(BUILTIN_FILTERS));
+
+  register(name: string, filter: TemplateFilter): void {
+    if (!/^[A-Za-z_$][\w$]*$/.test(name)) {
+      throw new Error(`Invalid filter name: ${name}`);
+    }
+    this.filters.set(name, filter);
+  }
+
+  get(name: string): TemplateFilter | undefined {
+    return this.filters.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.filters.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.filters.keys());
+  }
+}
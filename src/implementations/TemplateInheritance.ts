@@ -1,16 +1,48 @@
 import { injectable, inject } from 'inversify';
 import type { ILogger } from '@chasenocap/logger';
 import type {
+  IInheritanceConflict,
+  IResolutionOrder,
   ITemplateInheritance,
-  ISDLCTemplate
+  ISDLCTemplate,
+  ITemplateVariable,
+  IValidationError,
+  IVariableValidation
 } from '../types/ContentTypes.js';
+import { TemplateLexer } from './TemplateLexer.js';
+import { parseTemplateRef } from '../utils/semver.js';
 
-export type TemplateGetter = (templateId: string) => Promise<ISDLCTemplate | undefined>;
+/**
+ * Looks up a template by reference: `id` for the latest version or
+ * `id@range` for the latest version in a range.
+ */
+export type TemplateGetter = (templateRef: string) => Promise<ISDLCTemplate | undefined>;
+
+/**
+ * Source offsets of a `{{#block name}}...{{/block}}` region. `start`/`end`
+ * include the block tags, `bodyStart`/`bodyEnd` only what is between them.
+ */
+interface IBlockRegion {
+  name: string;
+  start: number;
+  end: number;
+  bodyStart: number;
+  bodyEnd: number;
+}
+
+const PARENT_PATTERN = /\{\{>\s*parent\s*\}\}/g;
+const SUPER_PATTERN = /\{\{\s*super\s*\}\}/g;
+const BLOCK_OPEN_PATTERN = /^#block\s+([\w-]+)$/;
 
 @injectable()
 export class TemplateInheritance implements ITemplateInheritance {
+  // Resolved entries are keyed like chain entries, see keyOf
   private resolvedCache: Map<string, ISDLCTemplate> = new Map();
+  private variableConflicts: Map<string, IValidationError[]> = new Map();
+  // Base template id -> ids of templates that list it as parent or mixin
+  private dependents: Map<string, Set<string>> = new Map();
   private templateGetter: TemplateGetter | null = null;
+  private readonly lexer = new TemplateLexer();
 
   constructor(
     @inject('ILogger') private logger: ILogger
@@ -27,13 +59,6 @@ export class TemplateInheritance implements ITemplateInheritance {
     });
     childLogger.debug('Resolving template inheritance');
 
-    // Check cache
-    const cached = this.resolvedCache.get(templateId);
-    if (cached) {
-      childLogger.debug('Using cached resolved template');
-      return cached;
-    }
-
     if (!this.templateGetter) {
       throw new Error('Template getter not set');
     }
@@ -43,45 +68,129 @@ export class TemplateInheritance implements ITemplateInheritance {
     if (!template) {
       throw new Error(`Template not found: ${templateId}`);
     }
+    const key = await this.keyOf(template);
+
+    // Check cache
+    const cached = this.resolvedCache.get(key);
+    if (cached) {
+      childLogger.debug('Using cached resolved template');
+      return cached;
+    }
 
-    // If no parent, return as-is
-    if (!template.parent) {
-      this.resolvedCache.set(templateId, template);
+    // If nothing to inherit from, return as-is
+    if (this.basesOf(template).length === 0) {
+      this.recordBases(template);
+      this.resolvedCache.set(key, template);
+      this.variableConflicts.set(key, []);
       return template;
     }
 
-    // Get inheritance chain
-    const chain = await this.getInheritanceChain(templateId);
-    childLogger.debug('Inheritance chain resolved', { chain });
+    this.recordBases(template);
+    const { resolved, conflicts } = await this.mergeHierarchy(template, key);
 
-    // Start with the root parent
-    let resolved: ISDLCTemplate | null = null;
+    if (conflicts.length > 0) {
+      childLogger.warn('Conflicting variable definitions in inheritance hierarchy', {
+        conflicts: conflicts.map((conflict) => conflict.message)
+      });
+    }
+
+    // Cache the result
+    this.resolvedCache.set(key, resolved);
+    this.variableConflicts.set(key, conflicts);
     
-    for (const id of chain.reverse()) {
-      const current = await this.templateGetter!(id);
+    childLogger.debug('Template inheritance resolved successfully');
+    return resolved;
+  }
+
+  mergeTemplates(parent: ISDLCTemplate, child: ISDLCTemplate): ISDLCTemplate {
+    const conflicts: IValidationError[] = [];
+    const merged = this.merge(parent, child, conflicts);
+
+    if (conflicts.length > 0) {
+      this.logger.warn('Conflicting variable definitions while merging templates', {
+        component: 'TemplateInheritance',
+        parentId: parent.id,
+        childId: child.id,
+        conflicts: conflicts.map((conflict) => conflict.message)
+      });
+    }
+
+    return merged;
+  }
+
+  /**
+   * Variables redefined against their merge rules, and variables that
+   * unrelated bases define differently. Resolves the template first unless
+   * it is cached. Older versions are looked up as `id@version`.
+   */
+  async getVariableConflicts(templateId: string): Promise<IValidationError[]> {
+    if (!this.variableConflicts.has(templateId)) {
+      await this.resolveTemplate(templateId);
+    }
+    return this.variableConflicts.get(templateId) ?? [];
+  }
+
+  /**
+   * Merge strategy conflicts between a template's own variables and its
+   * parent and mixin chain. The given object is merged rather than the
+   * loaded version with its id, so edited and unloaded templates are
+   * checked too. Nothing is cached.
+   */
+  async findConflicts(template: ISDLCTemplate): Promise<IValidationError[]> {
+    if (this.basesOf(template).length === 0) {
+      return [];
+    }
+    const { conflicts } = await this.mergeHierarchy(template, await this.keyOf(template));
+    return conflicts;
+  }
+
+  /**
+   * Merges a template over its linearized bases, starting with the least
+   * specific. `key` stands for the template itself in the chain, which is
+   * used as given instead of being looked up.
+   */
+  private async mergeHierarchy(
+    template: ISDLCTemplate,
+    key: string
+  ): Promise<{ resolved: ISDLCTemplate; conflicts: IValidationError[] }> {
+    const chain = await this.linearizeTemplate(template, key, [], new Map());
+    this.logger.debug('Inheritance chain resolved', {
+      component: 'TemplateInheritance',
+      templateId: key,
+      chain
+    });
+
+    const inherited = await this.findInheritanceConflicts(chain, template);
+    const conflicts: IValidationError[] = inherited.map((conflict) => ({
+      path: `variables.${conflict.name}`,
+      message: conflict.message,
+      type: 'conflict'
+    }));
+
+    let resolved: ISDLCTemplate | null = null;
+    for (const id of [...chain].reverse()) {
+      const current = id === key ? template : await this.fetchTemplate(id);
       if (!current) {
         throw new Error(`Template in inheritance chain not found: ${id}`);
       }
-
-      if (!resolved) {
-        resolved = { ...current };
-      } else {
-        resolved = this.mergeTemplates(resolved, current);
+      if (current !== template) {
+        this.recordBases(current);
       }
+
+      resolved = resolved ? this.merge(resolved, current, conflicts) : { ...current };
     }
 
     if (!resolved) {
       throw new Error('Failed to resolve template inheritance');
     }
-
-    // Cache the result
-    this.resolvedCache.set(templateId, resolved);
-    
-    childLogger.debug('Template inheritance resolved successfully');
-    return resolved;
+    return { resolved, conflicts };
   }
 
-  mergeTemplates(parent: ISDLCTemplate, child: ISDLCTemplate): ISDLCTemplate {
+  private merge(
+    parent: ISDLCTemplate,
+    child: ISDLCTemplate,
+    conflicts: IValidationError[]
+  ): ISDLCTemplate {
     const childLogger = this.logger.child({
       component: 'TemplateInheritance',
       parentId: parent.id,
@@ -93,12 +202,15 @@ export class TemplateInheritance implements ITemplateInheritance {
       ...parent,
       ...child,
       // Merge arrays
-      variables: this.mergeVariables(parent.variables || [], child.variables || []),
+      variables: this.mergeVariables(parent, child, conflicts),
       tags: this.mergeTags(parent.tags || [], child.tags || []),
-      // Replace {{> parent}} with parent content
-      content: this.mergeContent(parent.content, child.content),
-      // Preserve child's parent reference
-      parent: child.parent
+      // Apply block overrides and replace {{> parent}} with parent content
+      content: this.mergeContent(parent.content, child.content, childLogger),
+      // Preserve child's parent and mixin references
+      parent: child.parent,
+      mixins: child.mixins,
+      // Deprecating a base does not deprecate what inherits from it
+      deprecated: child.deprecated
     };
 
     // Handle metadata merging
@@ -110,6 +222,11 @@ export class TemplateInheritance implements ITemplateInheritance {
     return merged;
   }
 
+  /**
+   * Returns the C3 linearization of a template, most specific first. The
+   * direct bases are the mixins in declaration order followed by the parent,
+   * so with no mixins this is the plain parent chain.
+   */
   async getInheritanceChain(templateId: string): Promise<string[]> {
     const childLogger = this.logger.child({
       component: 'TemplateInheritance',
@@ -117,68 +234,480 @@ export class TemplateInheritance implements ITemplateInheritance {
     });
     childLogger.debug('Building inheritance chain');
 
-    const chain: string[] = [templateId];
-    const visited = new Set<string>([templateId]);
+    const chain = await this.linearize(templateId, [], new Map());
+
+    childLogger.debug('Inheritance chain built', {
+      chain,
+      depth: chain.length
+    });
+
+    return chain;
+  }
+
+  async getResolutionOrder(templateId: string): Promise<IResolutionOrder> {
+    const order = await this.getInheritanceChain(templateId);
+
+    const bases: IResolutionOrder['bases'] = {};
+    for (const id of order) {
+      const template = await this.fetchTemplate(id);
+      bases[id] = { parent: template?.parent, mixins: template?.mixins ?? [] };
+    }
+
+    return {
+      templateId,
+      order,
+      bases,
+      conflicts: await this.findInheritanceConflicts(order),
+      diagram: this.renderDiagram(order, bases)
+    };
+  }
+
+  private async linearize(
+    templateRef: string,
+    path: string[],
+    memo: Map<string, string[]>
+  ): Promise<string[]> {
+    // Missing templates end the chain here; resolveTemplate reports them
+    const template = await this.fetchTemplate(templateRef);
+    const templateId = template ? await this.keyOf(template) : templateRef;
+    return this.linearizeTemplate(template, templateId, path, memo);
+  }
+
+  private async linearizeTemplate(
+    template: ISDLCTemplate | undefined,
+    templateId: string,
+    path: string[],
+    memo: Map<string, string[]>
+  ): Promise<string[]> {
+    if (path.includes(templateId)) {
+      throw new Error(`Circular inheritance detected: ${[...path, templateId].join(' -> ')}`);
+    }
+
+    const known = memo.get(templateId);
+    if (known) {
+      return known;
+    }
+
+    const bases = template ? this.basesOf(template) : [];
+
+    const sequences: string[][] = [];
+    for (const base of bases) {
+      sequences.push(await this.linearize(base, [...path, templateId], memo));
+    }
+    sequences.push(sequences.flatMap((sequence) => sequence.slice(0, 1)));
 
-    let currentId = templateId;
-    while (true) {
-      const template = await this.templateGetter!(currentId);
-      if (!template || !template.parent) {
-        break;
+    const linearization = [templateId, ...this.mergeLinearizations(templateId, sequences)];
+    memo.set(templateId, linearization);
+    return linearization;
+  }
+
+  /**
+   * The C3 merge: repeatedly takes the first head that does not appear in
+   * the tail of any other sequence.
+   */
+  private mergeLinearizations(templateId: string, sequences: string[][]): string[] {
+    const pending = sequences
+      .map((sequence) => [...sequence])
+      .filter((sequence) => sequence.length > 0);
+    const result: string[] = [];
+
+    while (pending.length > 0) {
+      const head = pending
+        .flatMap((sequence) => sequence.slice(0, 1))
+        .find((candidate) => pending.every((sequence) => sequence.indexOf(candidate) <= 0));
+
+      if (!head) {
+        const heads = pending.map((sequence) => sequence[0]).join(', ');
+        throw new Error(
+          `Cannot linearize inheritance for ${templateId}: mixins and parent disagree on the order of ${heads}`
+        );
       }
 
-      // Check for circular inheritance
-      if (visited.has(template.parent)) {
-        throw new Error(`Circular inheritance detected: ${templateId} -> ${template.parent}`);
+      result.push(head);
+      for (const sequence of pending) {
+        if (sequence[0] === head) {
+          sequence.shift();
+        }
+      }
+      const exhausted = pending.filter((sequence) => sequence.length === 0);
+      for (const sequence of exhausted) {
+        pending.splice(pending.indexOf(sequence), 1);
       }
+    }
+
+    return result;
+  }
+
+  private basesOf(template: ISDLCTemplate): string[] {
+    return [...(template.mixins ?? []), ...(template.parent ? [template.parent] : [])];
+  }
 
-      chain.push(template.parent);
-      visited.add(template.parent);
-      currentId = template.parent;
+  private async fetchTemplate(templateId: string): Promise<ISDLCTemplate | undefined> {
+    if (!this.templateGetter) {
+      throw new Error('Template getter not set');
     }
+    return this.templateGetter(templateId);
+  }
 
-    childLogger.debug('Inheritance chain built', { 
-      chain,
-      depth: chain.length 
+  /**
+   * Chain entry for a template: its id when it is the latest version, so
+   * unversioned hierarchies read as before, otherwise `id@version`.
+   */
+  private async keyOf(template: ISDLCTemplate): Promise<string> {
+    const latest = await this.fetchTemplate(template.id);
+    return !latest || latest.version === template.version
+      ? template.id
+      : `${template.id}@${template.version}`;
+  }
+
+  /**
+   * Reports variables that unrelated templates in the hierarchy define
+   * differently. The definition nearest the front of the resolution order
+   * wins; redefining the variable in a common descendant settles it.
+   * `head` replaces the loaded template at the front of the order.
+   */
+  private async findInheritanceConflicts(
+    order: string[],
+    head?: ISDLCTemplate
+  ): Promise<IInheritanceConflict[]> {
+    const definitions = new Map<
+      string,
+      Array<{ templateId: string; variable: ITemplateVariable }>
+    >();
+    const ancestors = new Map<string, Set<string>>();
+    const memo = new Map<string, string[]>();
+
+    for (const [index, id] of order.entries()) {
+      const template = index === 0 && head ? head : await this.fetchTemplate(id);
+      // The order is the linearization of its first entry
+      const linearization = index === 0 ? order : await this.linearize(id, [], memo);
+      ancestors.set(id, new Set(linearization.slice(1)));
+
+      for (const variable of template?.variables ?? []) {
+        const defined = definitions.get(variable.name) ?? [];
+        defined.push({ templateId: id, variable });
+        definitions.set(variable.name, defined);
+      }
+    }
+
+    const conflicts: IInheritanceConflict[] = [];
+    for (const [name, [winner, ...others]] of definitions) {
+      if (!winner) continue;
+
+      const winnerAncestors = ancestors.get(winner.templateId) ?? new Set<string>();
+      const rivals = others.filter(
+        (other) =>
+          !winnerAncestors.has(other.templateId) &&
+          JSON.stringify(other.variable) !== JSON.stringify(winner.variable)
+      );
+
+      if (rivals.length > 0) {
+        const templates = [winner.templateId, ...rivals.map((rival) => rival.templateId)];
+        conflicts.push({
+          type: 'variable',
+          name,
+          templates,
+          resolvedFrom: winner.templateId,
+          message: `Variable '${name}' is defined differently by ${templates.join(', ')}; using ${winner.templateId}`
+        });
+      }
+    }
+
+    return conflicts;
+  }
+
+  /**
+   * Mermaid flowchart of the hierarchy. Nodes are numbered in resolution
+   * order and edges are labelled with how each base is inherited.
+   */
+  private renderDiagram(order: string[], bases: IResolutionOrder['bases']): string {
+    const nodeIds = new Map(order.map((id, index) => [id, `t${index}`]));
+    const lines = ['graph TD'];
+
+    order.forEach((id, index) => {
+      lines.push(`  ${nodeIds.get(id)}["${index + 1}. ${id}"]`);
     });
 
-    return chain;
+    for (const id of order) {
+      const { parent, mixins = [] } = bases[id] ?? {};
+      for (const mixin of mixins) {
+        lines.push(`  ${nodeIds.get(id)} -->|mixin| ${nodeIds.get(mixin)}`);
+      }
+      if (parent) {
+        lines.push(`  ${nodeIds.get(id)} -->|parent| ${nodeIds.get(parent)}`);
+      }
+    }
+
+    return lines.join('\n');
   }
 
+  /**
+   * Adds the child's variables to the parent's. A redefinition follows its
+   * `merge` strategy; one that breaks a `final` or `sealed` parent variable
+   * is reported and the parent definition is kept. Identical redeclarations
+   * are not redefinitions.
+   */
   private mergeVariables(
-    parentVars: ISDLCTemplate['variables'],
-    childVars: ISDLCTemplate['variables']
+    parent: ISDLCTemplate,
+    child: ISDLCTemplate,
+    conflicts: IValidationError[]
   ): ISDLCTemplate['variables'] {
-    const merged = [...parentVars];
+    const merged = [...(parent.variables || [])];
+    const conflict = (name: string, message: string) => {
+      conflicts.push({ path: `variables.${name}`, message, type: 'conflict' });
+    };
 
-    // Add or override child variables
-    for (const childVar of childVars) {
+    for (const childVar of child.variables || []) {
       const existingIndex = merged.findIndex(v => v.name === childVar.name);
-      
-      if (existingIndex >= 0) {
-        // Override parent variable
-        merged[existingIndex] = childVar;
-      } else {
+      const inherited = merged[existingIndex];
+      if (!inherited) {
         // Add new variable
         merged.push(childVar);
+        continue;
+      }
+
+      const name = childVar.name;
+
+      if (JSON.stringify(childVar) === JSON.stringify(inherited)) {
+        // Redeclaring the same definition changes nothing, as in a resolved template
+        continue;
+      }
+      if (inherited.merge === 'final') {
+        conflict(
+          name,
+          `Variable '${name}' is final in '${parent.id}' and cannot be redefined by '${child.id}'`
+        );
+      } else if (childVar.merge === 'extend') {
+        const { variable, problems } = this.extendVariable(inherited, childVar);
+        problems.forEach((problem) =>
+          conflict(name, `'${child.id}' cannot extend variable '${name}': ${problem}`)
+        );
+        merged[existingIndex] = variable;
+      } else if (inherited.sealed) {
+        conflict(
+          name,
+          `Variable '${name}' is sealed in '${parent.id}'; '${child.id}' can only redefine it with merge: extend`
+        );
+      } else {
+        // Override parent variable
+        merged[existingIndex] = childVar;
       }
     }
 
     return merged;
   }
 
+  /**
+   * Layers a child definition over an inherited one. Constraints can only
+   * get stricter: numeric ranges narrow, enums intersect, and the type,
+   * required flag, pattern and custom validator cannot be changed.
+   */
+  private extendVariable(
+    inherited: ITemplateVariable,
+    extension: ITemplateVariable
+  ): { variable: ITemplateVariable; problems: string[] } {
+    const problems: string[] = [];
+
+    if (extension.type !== undefined && extension.type !== inherited.type) {
+      problems.push(`the type cannot change from ${inherited.type} to ${extension.type}`);
+    }
+    if (inherited.required && extension.required === false) {
+      problems.push('a required variable cannot become optional');
+    }
+
+    const base: IVariableValidation = inherited.validation ?? {};
+    const added: IVariableValidation = extension.validation ?? {};
+    const validation: IVariableValidation = { ...base, ...added };
+
+    for (const key of ['pattern', 'custom'] as const) {
+      if (base[key] !== undefined && added[key] !== undefined && base[key] !== added[key]) {
+        problems.push(`the ${key} '${base[key]}' cannot be replaced`);
+        validation[key] = base[key];
+      }
+    }
+    if (base.min !== undefined && added.min !== undefined) {
+      validation.min = Math.max(base.min, added.min);
+    }
+    if (base.max !== undefined && added.max !== undefined) {
+      validation.max = Math.min(base.max, added.max);
+    }
+    if (
+      validation.min !== undefined &&
+      validation.max !== undefined &&
+      validation.min > validation.max
+    ) {
+      problems.push(`the range ${validation.min}..${validation.max} is empty`);
+    }
+    const allowed = added.enum;
+    if (base.enum && allowed) {
+      validation.enum = base.enum.filter((value) => allowed.includes(value));
+      if (validation.enum.length === 0) {
+        problems.push('the allowed values have nothing in common');
+      }
+    }
+
+    const variable: ITemplateVariable = {
+      ...inherited,
+      ...extension,
+      type: inherited.type,
+      required: inherited.required || extension.required === true,
+      sealed: inherited.sealed || extension.sealed,
+      merge: undefined
+    };
+    if (Object.keys(validation).length > 0) {
+      variable.validation = validation;
+    }
+
+    return { variable, problems };
+  }
+
   private mergeTags(parentTags: string[], childTags: string[]): string[] {
     const tagSet = new Set([...parentTags, ...childTags]);
     return Array.from(tagSet);
   }
 
-  private mergeContent(parentContent: string, childContent: string): string {
-    // Replace {{> parent}} placeholder with parent content
-    return childContent.replace(/\{\{>\s*parent\s*\}\}/g, parentContent);
+  /**
+   * Child blocks named like a parent block replace that block's content,
+   * with `{{super}}` standing for what the parent had; an empty block removes
+   * it. The block tags stay in place so grandchildren can override again.
+   *
+   * A child made only of overrides extends the parent. Otherwise the child
+   * content is used, with `{{> parent}}` replaced by the overridden parent.
+   */
+  private mergeContent(parentContent: string, childContent: string, logger: ILogger): string {
+    const parentBlocks = this.findBlocks(parentContent);
+    const parentNames = new Set(parentBlocks.map((block) => block.name));
+
+    // Take each outermost child block that overrides a parent block out of the child
+    const overrides = new Map<string, string>();
+    let remaining = '';
+    let cursor = 0;
+    for (const block of this.findBlocks(childContent)) {
+      if (block.start < cursor || !parentNames.has(block.name)) continue;
+      overrides.set(block.name, childContent.slice(block.bodyStart, block.bodyEnd));
+      remaining += childContent.slice(cursor, block.start);
+      cursor = block.end;
+    }
+    remaining += childContent.slice(cursor);
+
+    let resolved = '';
+    cursor = 0;
+    for (const block of parentBlocks) {
+      const override = overrides.get(block.name);
+      // Blocks nested in an overridden block are replaced along with it
+      if (override === undefined || block.start < cursor) continue;
+
+      const original = parentContent.slice(block.bodyStart, block.bodyEnd);
+      resolved += parentContent.slice(cursor, block.bodyStart);
+      resolved += override.replace(SUPER_PATTERN, () => original);
+      cursor = block.bodyEnd;
+    }
+    resolved += parentContent.slice(cursor);
+
+    if (overrides.size > 0) {
+      logger.debug('Applied block overrides', { blocks: Array.from(overrides.keys()) });
+    }
+
+    if (remaining.search(PARENT_PATTERN) !== -1) {
+      return remaining.replace(PARENT_PATTERN, () => resolved);
+    }
+
+    if (overrides.size === 0) {
+      return childContent;
+    }
+
+    if (remaining.trim() !== '') {
+      logger.warn(
+        'Child content outside overriding blocks is ignored; add {{> parent}} to place it'
+      );
+    }
+    return resolved;
+  }
+
+  /**
+   * Finds every block region in a template, outer blocks before the blocks
+   * nested inside them.
+   */
+  private findBlocks(content: string): IBlockRegion[] {
+    const regions: IBlockRegion[] = [];
+    const open: Array<Omit<IBlockRegion, 'end' | 'bodyEnd'>> = [];
+
+    for (const token of this.lexer.tokenize(content).tokens) {
+      if (token.type !== 'tag') continue;
+
+      const [, name] = token.body.match(BLOCK_OPEN_PATTERN) ?? [];
+      if (name) {
+        open.push({
+          name,
+          start: token.position.offset,
+          bodyStart: token.position.offset + token.raw.length
+        });
+      } else if (token.body === '/block') {
+        const block = open.pop();
+        if (block) {
+          regions.push({
+            ...block,
+            end: token.position.offset + token.raw.length,
+            bodyEnd: token.position.offset
+          });
+        }
+      }
+    }
+
+    return regions.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Drops the resolved entries of a changed template and of every template
+   * that inherits from it, directly or through other templates, across all
+   * their versions. Returns the affected ids, starting with the changed
+   * template.
+   */
+  invalidate(templateId: string): string[] {
+    // The changed template may no longer use the same bases
+    for (const children of this.dependents.values()) {
+      children.delete(templateId);
+    }
+
+    const affected = [templateId];
+    // Ids appended below are visited by the same loop
+    for (const id of affected) {
+      for (const child of this.dependents.get(id) ?? []) {
+        if (!affected.includes(child)) {
+          affected.push(child);
+        }
+      }
+    }
+
+    for (const cache of [this.resolvedCache, this.variableConflicts]) {
+      for (const key of cache.keys()) {
+        if (affected.includes(parseTemplateRef(key).id)) {
+          cache.delete(key);
+        }
+      }
+    }
+
+    this.logger.debug('Resolved templates invalidated', {
+      component: 'TemplateInheritance',
+      templateId,
+      affected
+    });
+    return affected;
+  }
+
+  private recordBases(template: ISDLCTemplate): void {
+    for (const base of this.basesOf(template)) {
+      const baseId = parseTemplateRef(base).id;
+      const children = this.dependents.get(baseId) ?? new Set<string>();
+      children.add(template.id);
+      this.dependents.set(baseId, children);
+    }
   }
 
   clearCache(): void {
     this.resolvedCache.clear();
+    this.variableConflicts.clear();
+    this.dependents.clear();
     this.logger.debug('Template inheritance cache cleared', {
       component: 'TemplateInheritance'
     });
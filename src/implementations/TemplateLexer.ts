@@ -0,0 +1,132 @@
+import type {
+  ISourcePosition,
+  ITemplateSyntaxError,
+  ITemplateTokenizeResult,
+  TemplateToken
+} from '../types/TemplateAst.js';
+
+const OPEN = '{{';
+const CLOSE = '}}';
+const TRIPLE_OPEN = '{{{';
+const TRIPLE_CLOSE = '}}}';
+
+/**
+ * Splits template source into text and tag tokens.
+ *
+ * The lexer is tolerant: malformed tags are emitted as text and reported
+ * through `errors`, so callers can still render what they can.
+ */
+export class TemplateLexer {
+  tokenize(source: string): ITemplateTokenizeResult {
+    const tokens: TemplateToken[] = [];
+    const errors: ITemplateSyntaxError[] = [];
+    const locate = this.createLocator(source);
+
+    const pushText = (start: number, end: number): void => {
+      if (end <= start) return;
+      const value = source.slice(start, end);
+      this.checkStrayClose(value, start, locate, errors);
+
+      // Merge with a preceding text token so malformed tags stay contiguous
+      const last = tokens[tokens.length - 1];
+      if (last && last.type === 'text') {
+        last.value += value;
+      } else {
+        tokens.push({ type: 'text', value, position: locate(start) });
+      }
+    };
+
+    let pos = 0;
+    while (pos < source.length) {
+      const open = source.indexOf(OPEN, pos);
+      if (open === -1) {
+        pushText(pos, source.length);
+        break;
+      }
+
+      pushText(pos, open);
+
+      // {{{value}}} outputs the value without escaping
+      const unescaped = source.startsWith(TRIPLE_OPEN, open);
+      const [openDelimiter, closeDelimiter] = unescaped
+        ? [TRIPLE_OPEN, TRIPLE_CLOSE]
+        : [OPEN, CLOSE];
+
+      const close = source.indexOf(closeDelimiter, open + openDelimiter.length);
+      const nextOpen = source.indexOf(OPEN, open + openDelimiter.length);
+
+      // No closing delimiter before the next tag starts: treat as literal text
+      if (close === -1 || (nextOpen !== -1 && nextOpen < close)) {
+        const position = locate(open);
+        errors.push({
+          message: `Unmatched opening brackets ${openDelimiter}`,
+          line: position.line,
+          column: position.column
+        });
+        const end = nextOpen === -1 ? source.length : nextOpen;
+        pushText(open, end);
+        pos = end;
+        continue;
+      }
+
+      const end = close + closeDelimiter.length;
+      tokens.push({
+        type: 'tag',
+        body: source.slice(open + openDelimiter.length, close).trim(),
+        raw: source.slice(open, end),
+        unescaped,
+        position: locate(open)
+      });
+      pos = end;
+    }
+
+    return { tokens, errors };
+  }
+
+  private checkStrayClose(
+    text: string,
+    offset: number,
+    locate: (offset: number) => ISourcePosition,
+    errors: ITemplateSyntaxError[]
+  ): void {
+    let index = text.indexOf(CLOSE);
+    while (index !== -1) {
+      const position = locate(offset + index);
+      errors.push({
+        message: 'Unmatched closing brackets }}',
+        line: position.line,
+        column: position.column
+      });
+      index = text.indexOf(CLOSE, index + CLOSE.length);
+    }
+  }
+
+  private createLocator(source: string): (offset: number) => ISourcePosition {
+    const lineStarts = [0];
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        lineStarts.push(i + 1);
+      }
+    }
+
+    return (offset: number) => {
+      // Binary search for the last line starting at or before the offset
+      let low = 0;
+      let high = lineStarts.length - 1;
+      while (low < high) {
+        const mid = (low + high + 1) >> 1;
+        if ((lineStarts[mid] ?? 0) <= offset) {
+          low = mid;
+        } else {
+          high = mid - 1;
+        }
+      }
+
+      return {
+        offset,
+        line: low + 1,
+        column: offset - (lineStarts[low] ?? 0) + 1
+      };
+    };
+  }
+}
@@ -0,0 +1,424 @@
+import { TemplateLexer } from './TemplateLexer.js';
+import { ExpressionParser, ExpressionSyntaxError } from './ExpressionParser.js';
+import type {
+  ExpressionNode,
+  ISourcePosition,
+  ITagToken,
+  ITemplateAst,
+  ITemplateSyntaxError,
+  IIfNode,
+  IUnlessNode,
+  IWithNode,
+  IEachNode,
+  IBlockNode,
+  IPartialNode,
+  IPartialParam,
+  IVariableNode,
+  TemplateNode
+} from '../types/TemplateAst.js';
+
+type BlockNode = IIfNode | IUnlessNode | IWithNode | IEachNode | IBlockNode;
+
+interface IOpenBlock {
+  node: BlockNode;
+  token: ITagToken;
+  branch: 'body' | 'inverse';
+  chained: boolean; // Opened by {{else if}}; closed together with the head block
+}
+
+const EACH_PATTERN = /^([\w.]+)\s+as\s+(\w+)$/;
+const WITH_PATTERN = /^([\s\S]+?)(?:\s+as\s+(\w+))?$/;
+const PARTIAL_PATTERN = /^>\s*([\w.-]+)(?:\s+([\s\S]*))?$/;
+const PARTIAL_PARAM_PATTERN = /\s*(\w+)=("(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|[^\s"']+)\s*/y;
+const BLOCK_NAME_PATTERN = /^[\w-]+$/;
+const ELSE_PATTERN = /^else(?:\s+if\s+([\s\S]*))?$/;
+
+const BLOCK_LABELS = new Map<string, string>([
+  ['if', 'conditional'],
+  ['unless', 'conditional'],
+  ['with', 'with'],
+  ['each', 'loop'],
+  ['block', 'named']
+]);
+
+/**
+ * Visits every node in a template AST depth first, including the inverse
+ * branches of conditional, with and loop blocks.
+ */
+export function walkTemplate(nodes: TemplateNode[], visit: (node: TemplateNode) => void): void {
+  for (const node of nodes) {
+    visit(node);
+    if ('body' in node) {
+      walkTemplate(node.body, visit);
+    }
+    if ('inverse' in node) {
+      walkTemplate(node.inverse, visit);
+    }
+  }
+}
+
+/**
+ * Builds a template AST from source text.
+ *
+ * Parsing never throws. Syntax problems are collected in `ast.errors` and the
+ * parser recovers by keeping malformed tags as literal text and closing any
+ * unterminated blocks at the end of the template.
+ */
+export class TemplateParser {
+  private readonly lexer = new TemplateLexer();
+  private readonly expressions = new ExpressionParser();
+
+  parse(source: string): ITemplateAst {
+    const { tokens, errors } = this.lexer.tokenize(source);
+
+    const root: TemplateNode[] = [];
+    const stack: IOpenBlock[] = [];
+    const blockNames = new Set<string>();
+    const current = (): TemplateNode[] => {
+      const top = stack[stack.length - 1];
+      return top ? this.branchOf(top) : root;
+    };
+
+    for (const token of tokens) {
+      if (token.type === 'text') {
+        this.appendText(current(), token.value, token.position);
+        continue;
+      }
+
+      const body = token.body;
+
+      if (token.unescaped && /^(?:[#/>]|else\b|super$)/.test(body)) {
+        this.addError(errors, token, `Triple braces can only wrap a variable: ${token.raw}`);
+        this.appendText(current(), token.raw, token.position);
+        continue;
+      }
+
+      if (body.startsWith('#')) {
+        const block = this.parseBlockOpen(token, errors, blockNames);
+        if (block) {
+          current().push(block);
+          stack.push({ node: block, token, branch: 'body', chained: false });
+        } else {
+          this.appendText(current(), token.raw, token.position);
+        }
+        continue;
+      }
+
+      if (body.startsWith('/')) {
+        const name = body.slice(1).trim();
+        if (!this.closeBlock(stack, name)) {
+          const label = BLOCK_LABELS.get(name);
+          this.addError(
+            errors,
+            token,
+            label
+              ? `Unmatched ${label} block: {{/${name}}} without opening {{#${name}}}`
+              : `Unknown closing tag {{/${name}}}`
+          );
+          this.appendText(current(), token.raw, token.position);
+        }
+        continue;
+      }
+
+      if (body === 'super') {
+        if (stack.some((open) => open.node.type === 'block')) {
+          current().push({ type: 'super', position: token.position });
+        } else {
+          this.addError(errors, token, '{{super}} can only be used inside a {{#block}}');
+          this.appendText(current(), token.raw, token.position);
+        }
+        continue;
+      }
+
+      const elseMatch = body.match(ELSE_PATTERN);
+      if (elseMatch) {
+        if (!this.openElse(stack, token, elseMatch[1], errors)) {
+          this.appendText(current(), token.raw, token.position);
+        }
+        continue;
+      }
+
+      if (body.startsWith('>')) {
+        const [, name, params = ''] = body.match(PARTIAL_PATTERN) ?? [];
+        if (name) {
+          current().push(this.parsePartial(name, params, token, errors));
+        } else {
+          this.addError(errors, token, `Invalid partial reference: ${token.raw}`);
+          this.appendText(current(), token.raw, token.position);
+        }
+        continue;
+      }
+
+      const variable = this.parseVariable(token, errors);
+      if (variable) {
+        current().push(variable);
+      } else {
+        this.appendText(current(), token.raw, token.position);
+      }
+    }
+
+    // Close anything left open so the recovered AST is still usable
+    for (const open of stack.reverse()) {
+      if (open.chained) continue;
+      const label = BLOCK_LABELS.get(open.node.type);
+      this.addError(
+        errors,
+        open.token,
+        `Unmatched ${label} block: {{#${open.node.type}}} is never closed`
+      );
+    }
+
+    errors.sort((a, b) => a.line - b.line || a.column - b.column);
+
+    return { type: 'template', body: root, errors };
+  }
+
+  private parseBlockOpen(
+    token: ITagToken,
+    errors: ITemplateSyntaxError[],
+    blockNames: Set<string>
+  ): BlockNode | null {
+    const [, keyword = '', rest = ''] = token.body.match(/^#(\w*)\s*([\s\S]*)$/) || [];
+    const args = rest.trim();
+
+    switch (keyword) {
+      case 'if':
+      case 'unless': {
+        const condition = this.parseExpression(args, token, errors);
+        return { type: keyword, condition, body: [], inverse: [], position: token.position };
+      }
+
+      case 'with': {
+        const [, source = '', alias] = args.match(WITH_PATTERN) || [];
+        const expression = this.parseExpression(source, token, errors);
+        return {
+          type: 'with',
+          expression,
+          alias,
+          body: [],
+          inverse: [],
+          position: token.position
+        };
+      }
+
+      case 'each': {
+        const [, collection, alias] = args.match(EACH_PATTERN) ?? [];
+        if (!collection || !alias) {
+          this.addError(
+            errors,
+            token,
+            `Invalid loop header ${token.raw}, expected {{#each items as item}}`
+          );
+          return null;
+        }
+        return {
+          type: 'each',
+          collection,
+          alias,
+          body: [],
+          inverse: [],
+          position: token.position
+        };
+      }
+
+      case 'block': {
+        if (!BLOCK_NAME_PATTERN.test(args)) {
+          this.addError(
+            errors,
+            token,
+            `Invalid block name in ${token.raw}, expected {{#block name}}`
+          );
+          return null;
+        }
+        if (blockNames.has(args)) {
+          this.addError(errors, token, `Duplicate block '${args}'`);
+        }
+        blockNames.add(args);
+        const block: IBlockNode = { type: 'block', name: args, body: [], position: token.position };
+        return block;
+      }
+
+      default:
+        this.addError(errors, token, `Unknown block helper #${keyword}`);
+        return null;
+    }
+  }
+
+  /**
+   * Switches the innermost block to its inverse branch. For `{{else if}}` a
+   * chained IIfNode is opened inside that branch.
+   */
+  private openElse(
+    stack: IOpenBlock[],
+    token: ITagToken,
+    elseIfCondition: string | undefined,
+    errors: ITemplateSyntaxError[]
+  ): boolean {
+    const top = stack[stack.length - 1];
+
+    if (!top) {
+      this.addError(
+        errors,
+        token,
+        `${token.raw} must be inside an {{#if}}, {{#unless}}, {{#with}} or {{#each}} block`
+      );
+      return false;
+    }
+
+    if (top.node.type === 'block') {
+      this.addError(errors, token, `${token.raw} cannot be used directly inside a {{#block}}`);
+      return false;
+    }
+
+    if (top.branch === 'inverse') {
+      this.addError(errors, token, `${token.raw} cannot follow {{else}} in the same block`);
+      return false;
+    }
+
+    top.branch = 'inverse';
+
+    if (elseIfCondition !== undefined) {
+      const condition = this.parseExpression(elseIfCondition.trim(), token, errors);
+      const chained: IIfNode = {
+        type: 'if',
+        condition,
+        body: [],
+        inverse: [],
+        position: token.position
+      };
+      top.node.inverse.push(chained);
+      stack.push({ node: chained, token, branch: 'body', chained: true });
+    }
+
+    return true;
+  }
+
+  /**
+   * Parses the `key=value` parameters of a partial include. Values are
+   * expressions, so `owner=author` passes a variable and `label="Draft"` a
+   * literal. Malformed parameters are reported and left out.
+   */
+  private parsePartial(
+    name: string,
+    source: string,
+    token: ITagToken,
+    errors: ITemplateSyntaxError[]
+  ): IPartialNode {
+    const params: IPartialParam[] = [];
+    const seen = new Set<string>();
+
+    PARTIAL_PARAM_PATTERN.lastIndex = 0;
+    while (PARTIAL_PARAM_PATTERN.lastIndex < source.length) {
+      const start = PARTIAL_PARAM_PATTERN.lastIndex;
+      const match = PARTIAL_PARAM_PATTERN.exec(source);
+      if (!match) {
+        this.addError(
+          errors,
+          token,
+          `Invalid partial parameter '${source.slice(start).trim()}' in ${token.raw}, expected key=value`
+        );
+        break;
+      }
+
+      const [, key = '', value = ''] = match;
+      if (seen.has(key)) {
+        this.addError(errors, token, `Duplicate partial parameter '${key}' in ${token.raw}`);
+        continue;
+      }
+      seen.add(key);
+      params.push({ name: key, value: this.parseExpression(value, token, errors) });
+    }
+
+    return { type: 'partial', name, params, position: token.position };
+  }
+
+  private parseVariable(token: ITagToken, errors: ITemplateSyntaxError[]): IVariableNode | null {
+    try {
+      const { expression, filters } = this.expressions.parsePipeline(token.body);
+      return {
+        type: 'variable',
+        expression,
+        filters,
+        unescaped: token.unescaped,
+        position: token.position
+      };
+    } catch (error) {
+      if (!(error instanceof ExpressionSyntaxError)) throw error;
+      this.addExpressionError(errors, token, token.body, error);
+      return null;
+    }
+  }
+
+  /**
+   * Parses a block expression, reporting syntax errors at their column
+   * within the template rather than within the tag. Invalid expressions
+   * recover as `false` so the block structure around them stays intact.
+   */
+  private parseExpression(
+    source: string,
+    token: ITagToken,
+    errors: ITemplateSyntaxError[]
+  ): ExpressionNode {
+    try {
+      return this.expressions.parse(source);
+    } catch (error) {
+      if (!(error instanceof ExpressionSyntaxError)) throw error;
+
+      this.addExpressionError(errors, token, source, error);
+      return { type: 'literal', value: false };
+    }
+  }
+
+  private addExpressionError(
+    errors: ITemplateSyntaxError[],
+    token: ITagToken,
+    source: string,
+    error: ExpressionSyntaxError
+  ): void {
+    const start = Math.max(token.raw.indexOf(source), 0);
+    errors.push({
+      message: `Invalid expression in ${token.raw}: ${error.message}`,
+      line: token.position.line,
+      column: token.position.column + start + error.offset
+    });
+  }
+
+  private closeBlock(stack: IOpenBlock[], name: string): boolean {
+    let headIndex = stack.length - 1;
+    while (stack[headIndex]?.chained) {
+      headIndex--;
+    }
+
+    const head = stack[headIndex];
+    if (!head || head.node.type !== name) {
+      return false;
+    }
+
+    stack.length = headIndex;
+    return true;
+  }
+
+  private branchOf(open: IOpenBlock): TemplateNode[] {
+    if (open.node.type === 'block') {
+      return open.node.body;
+    }
+    return open.branch === 'inverse' ? open.node.inverse : open.node.body;
+  }
+
+  private appendText(nodes: TemplateNode[], value: string, position: ISourcePosition): void {
+    const last = nodes[nodes.length - 1];
+    if (last && last.type === 'text') {
+      last.value += value;
+    } else {
+      nodes.push({ type: 'text', value, position });
+    }
+  }
+
+  private addError(errors: ITemplateSyntaxError[], token: ITagToken, message: string): void {
+    errors.push({
+      message,
+      line: token.position.line,
+      column: token.position.column
+    });
+  }
+}
@@ -1,6 +1,16 @@
-import { injectable, inject } from 'inversify';
+import { injectable, inject, optional } from 'inversify';
 import type { ILogger } from '@chasenocap/logger';
 import type {
+  CompiledPartial,
+  CompiledTemplate,
+  IAppliedDefaults,
+  IRenderOptions,
+  IRenderOutput,
+  IUndefinedReference,
+  OutputFormat,
+  ITemplateFilterRegistry,
+  IVariableValidatorRegistry,
+  TemplateFilter,
   ITemplateRenderer,
   ISDLCTemplate,
   ITemplateVariable,
@@ -8,42 +18,289 @@ import type {
   IValidationError,
   IValidationWarning
 } from '../types/ContentTypes.js';
+import type {
+  ExpressionNode,
+  IEachNode,
+  IPartialNode,
+  IVariableNode,
+  TemplateNode
+} from '../types/TemplateAst.js';
+import { TemplateParser, walkTemplate } from './TemplateParser.js';
+import { ExpressionEvaluator, readProperty } from './ExpressionEvaluator.js';
+import { TemplateFilterRegistry, stringifyValue } from './TemplateFilterRegistry.js';
+import { VariableValidatorRegistry } from './VariableValidatorRegistry.js';
+import { detectMarkdownContext, escapeOutput } from './OutputEscaper.js';
+import type { IMarkdownContext } from './OutputEscaper.js';
+
+/**
+ * Lookup scope used while walking the AST. Loop and with bodies push a frame
+ * so their bindings shadow outer variables of the same name.
+ */
+interface IRenderScope {
+  values: Record<string, unknown>;
+  parent?: IRenderScope;
+}
+
+/**
+ * A template body ready to render, with the Markdown context of each
+ * variable tag in it.
+ */
+interface ICompiledBody {
+  body: TemplateNode[];
+  contexts: Map<IVariableNode, IMarkdownContext>;
+}
+
+interface ICompiledPartial extends CompiledPartial, ICompiledBody {}
+
+/**
+ * Per-render bookkeeping shared by every frame of one render call. Partials
+ * get a copy with their own contexts and a longer include chain.
+ */
+interface IRenderState {
+  undefinedReferences: IUndefinedReference[];
+  format: OutputFormat;
+  contexts: Map<IVariableNode, IMarkdownContext>;
+  partials: Record<string, string | CompiledPartial>;
+  compiledPartials: Map<string, ICompiledPartial>;
+  includeChain: string[];
+  maxPartialDepth: number;
+}
+
+export const DEFAULT_MAX_PARTIAL_DEPTH = 10;
+
+/**
+ * Thrown in strict mode when a template outputs variables that are not
+ * defined. `references` lists each one with its position in the template.
+ */
+export class UndefinedVariableError extends Error {
+  constructor(public readonly references: IUndefinedReference[]) {
+    super(
+      `Undefined template variables: ${references
+        .map((ref) => `${ref.name} (line ${ref.line}, column ${ref.column})`)
+        .join(', ')}`
+    );
+    this.name = 'UndefinedVariableError';
+  }
+}
+
+/**
+ * Keyword defaults for `date` variables, evaluated at render time.
+ */
+const COMPUTED_DATE_DEFAULTS: Record<string, () => Date> = {
+  today: () => {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  },
+  now: () => new Date()
+};
 
 @injectable()
 export class TemplateRenderer implements ITemplateRenderer {
-  private readonly variablePattern = /\{\{(\s*[\w.]+\s*)\}\}/g;
-  private readonly conditionalPattern = /\{\{#if\s+([\w.]+)\}\}([\s\S]*?)\{\{\/if\}\}/g;
-  private readonly loopPattern = /\{\{#each\s+([\w.]+)\s+as\s+(\w+)\}\}([\s\S]*?)\{\{\/each\}\}/g;
-
-  constructor(@inject('ILogger') private logger: ILogger) {}
+  private readonly parser = new TemplateParser();
+  private readonly evaluator = new ExpressionEvaluator();
+
+  constructor(
+    @inject('ILogger') private logger: ILogger,
+    @inject('ITemplateFilterRegistry')
+    @optional()
+    private filters: ITemplateFilterRegistry = new TemplateFilterRegistry(),
+    @inject('IVariableValidatorRegistry')
+    @optional()
+    private validators: IVariableValidatorRegistry = new VariableValidatorRegistry()
+  ) {}
+
+  render(
+    template: string,
+    variables: Record<string, unknown>,
+    options: IRenderOptions & { warn: true }
+  ): IRenderOutput;
+  render(template: string, variables: Record<string, unknown>, options?: IRenderOptions): string;
+  render(
+    template: string,
+    variables: Record<string, unknown>,
+    options: IRenderOptions = {}
+  ): string | IRenderOutput {
+    return this.compile(template)(variables, options);
+  }
 
-  render(template: string, variables: Record<string, unknown>): string {
+  compile(template: string): CompiledTemplate {
     const childLogger = this.logger.child({ component: 'TemplateRenderer' });
-    childLogger.debug('Rendering template', { variableCount: Object.keys(variables).length });
+    childLogger.debug('Compiling template', { length: template.length });
 
-    let result = template;
-    let previousResult = '';
-    
-    // Keep processing until no more changes occur (handles nested structures)
-    while (result !== previousResult) {
-      previousResult = result;
-      
-      // Process all template constructs
-      result = this.processLoops(result, variables);
-      result = this.processConditionals(result, variables);
-      result = this.processVariables(result, variables);
+    const ast = this.parser.parse(template);
+    if (ast.errors.length > 0) {
+      childLogger.warn('Template has syntax errors, rendering recovered AST', {
+        errors: ast.errors
+      });
     }
 
-    // Clean up any remaining unmatched variables
-    result = result.replace(this.variablePattern, '');
+    const contexts = this.collectContexts(template, ast.body);
+
+    const compiled = (
+      variables: Record<string, unknown>,
+      options: IRenderOptions = {}
+    ): string | IRenderOutput => {
+      childLogger.debug('Rendering template', { variableCount: Object.keys(variables).length });
+
+      const state: IRenderState = {
+        undefinedReferences: [],
+        format: options.format ?? 'text',
+        contexts,
+        partials: options.partials ?? {},
+        compiledPartials: new Map(),
+        includeChain: [],
+        maxPartialDepth: options.maxPartialDepth ?? DEFAULT_MAX_PARTIAL_DEPTH
+      };
+      const output = this.renderNodes(ast.body, { values: variables }, state);
+      const references = state.undefinedReferences;
+
+      if (references.length > 0) {
+        if (options.strict) {
+          throw new UndefinedVariableError(references);
+        }
+        childLogger.debug('Template referenced undefined variables', { count: references.length });
+      }
 
-    childLogger.debug('Template rendered successfully');
-    return result;
+      childLogger.debug('Template rendered successfully');
+
+      if (options.warn) {
+        return {
+          output,
+          warnings: references.map((reference) => ({
+            ...reference,
+            message: `Variable '${reference.name}' is undefined`
+          }))
+        };
+      }
+      return output;
+    };
+
+    return compiled as CompiledTemplate;
+  }
+
+  registerFilter(name: string, filter: TemplateFilter): void {
+    this.filters.register(name, filter);
+    this.logger.debug('Template filter registered', {
+      component: 'TemplateRenderer',
+      filter: name
+    });
+  }
+
+  applyDefaults(template: ISDLCTemplate, variables: Record<string, unknown>): IAppliedDefaults {
+    let merged = variables;
+    const applied: string[] = [];
+
+    for (const varDef of template.variables) {
+      if (varDef.default === undefined || this.getNestedValue(merged, varDef.name) !== undefined) {
+        continue;
+      }
+
+      merged = this.setNestedValue(merged, varDef.name, this.resolveDefault(varDef));
+      applied.push(varDef.name);
+    }
+
+    if (applied.length > 0) {
+      this.logger.debug('Applied variable defaults', {
+        component: 'TemplateRenderer',
+        templateId: template.id,
+        applied
+      });
+    }
+
+    return { variables: merged, applied };
   }
 
   validateVariables(
     template: ISDLCTemplate,
     variables: Record<string, unknown>
+  ): IContentValidationResult {
+    return this.checkVariables(template, variables, null);
+  }
+
+  async validateVariablesAsync(
+    template: ISDLCTemplate,
+    variables: Record<string, unknown>
+  ): Promise<IContentValidationResult> {
+    const pending: Array<Promise<IValidationError[]>> = [];
+    const result = this.checkVariables(template, variables, pending);
+
+    for (const errors of await Promise.all(pending)) {
+      result.errors.push(...errors);
+    }
+
+    return { ...result, valid: result.errors.length === 0 };
+  }
+
+  extractVariables(template: string): ITemplateVariable[] {
+    const childLogger = this.logger.child({ component: 'TemplateRenderer' });
+    childLogger.debug('Extracting variables from template');
+
+    const variables = new Map<string, ITemplateVariable>();
+    const ast = this.parser.parse(template);
+
+    for (const varName of this.collectPaths(ast.body, new Set())) {
+      if (!variables.has(varName)) {
+        variables.set(varName, {
+          name: varName,
+          description: `Variable ${varName} used in template`,
+          type: 'string', // Default type
+          required: true // Assume required by default
+        });
+      }
+    }
+
+    const result = Array.from(variables.values());
+    childLogger.debug('Variables extracted', { count: result.length });
+    return result;
+  }
+
+  /**
+   * Parses a partial once so callers can cache it and pass it in
+   * `partials` instead of its source.
+   */
+  compilePartial(partialId: string, source: string): ICompiledPartial {
+    const ast = this.parser.parse(source);
+    if (ast.errors.length > 0) {
+      this.logger.warn('Partial has syntax errors, rendering recovered AST', {
+        component: 'TemplateRenderer',
+        partial: partialId,
+        errors: ast.errors
+      });
+    }
+
+    return {
+      source,
+      includes: this.partialsOf(ast.body),
+      body: ast.body,
+      contexts: this.collectContexts(source, ast.body)
+    };
+  }
+
+  extractPartials(template: string): string[] {
+    return this.partialsOf(this.parser.parse(template).body);
+  }
+
+  private partialsOf(body: TemplateNode[]): string[] {
+    const partials = new Set<string>();
+
+    walkTemplate(body, (node) => {
+      // {{> parent}} is the inheritance placeholder, not an include
+      if (node.type === 'partial' && node.name !== 'parent') {
+        partials.add(node.name);
+      }
+    });
+
+    return Array.from(partials);
+  }
+
+  /**
+   * Runs all variable checks. Asynchronous custom validators are collected in
+   * `pending` when given; the synchronous API reports them as skipped instead.
+   */
+  private checkVariables(
+    template: ISDLCTemplate,
+    variables: Record<string, unknown>,
+    pending: Array<Promise<IValidationError[]>> | null
   ): IContentValidationResult {
     const childLogger = this.logger.child({ 
       component: 'TemplateRenderer',
@@ -82,6 +339,23 @@ export class TemplateRenderer implements ITemplateRenderer {
           const validationErrors = this.validateValue(value, varDef);
           errors.push(...validationErrors);
         }
+
+        // Named validator from the registry
+        if (varDef.validation?.custom) {
+          const outcome = this.validators.run(varDef.validation.custom, value, varDef);
+          if (!(outcome instanceof Promise)) {
+            errors.push(...outcome);
+          } else if (pending) {
+            pending.push(outcome);
+          } else {
+            outcome.catch(() => undefined);
+            warnings.push({
+              path: varDef.name,
+              message: `Custom validator '${varDef.validation.custom}' is asynchronous and was skipped; use validateVariablesAsync`,
+              type: 'best-practice'
+            });
+          }
+        }
       }
     }
 
@@ -111,149 +385,316 @@ export class TemplateRenderer implements ITemplateRenderer {
     };
   }
 
-  extractVariables(template: string): ITemplateVariable[] {
-    const childLogger = this.logger.child({ component: 'TemplateRenderer' });
-    childLogger.debug('Extracting variables from template');
+  private renderNodes(nodes: TemplateNode[], scope: IRenderScope, state: IRenderState): string {
+    let result = '';
 
-    const variables = new Map<string, ITemplateVariable>();
-    const matches = new Set<string>();
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'text':
+          result += node.value;
+          break;
+
+        case 'variable': {
+          const output = stringifyValue(this.evaluateVariable(node, scope));
+          if (output === '') {
+            this.recordUndefined(node, scope, state);
+          }
+          result += node.unescaped
+            ? output
+            : escapeOutput(
+                output,
+                state.format,
+                // Every variable has a context; a line start is the safest fallback
+                state.contexts.get(node) ?? detectMarkdownContext('')
+              );
+          break;
+        }
+
+        case 'if':
+        case 'unless': {
+          const truthy = this.isTruthy(this.evaluate(node.condition, scope));
+          const branch = truthy === (node.type === 'if') ? node.body : node.inverse;
+          result += this.renderNodes(branch, scope, state);
+          break;
+        }
+
+        case 'with': {
+          const value = this.evaluate(node.expression, scope);
+          if (!this.isTruthy(value)) {
+            result += this.renderNodes(node.inverse, scope, state);
+          } else if (node.alias) {
+            result += this.renderNodes(
+              node.body,
+              { values: { [node.alias]: value }, parent: scope },
+              state
+            );
+          } else if (typeof value === 'object' && !Array.isArray(value)) {
+            result += this.renderNodes(
+              node.body,
+              { values: value as Record<string, unknown>, parent: scope },
+              state
+            );
+          } else {
+            result += this.renderNodes(node.body, scope, state);
+          }
+          break;
+        }
 
-    // Extract from simple variables
-    let match;
-    while ((match = this.variablePattern.exec(template)) !== null) {
-      matches.add(match[1]!.trim());
+        case 'each':
+          result += this.renderEach(node, scope, state);
+          break;
+
+        case 'block':
+          result += this.renderNodes(node.body, scope, state);
+          break;
+
+        case 'super':
+          // Replaced by TemplateInheritance; a root block has no parent content
+          break;
+
+        case 'partial':
+          // Parent partials are expanded by TemplateInheritance before rendering
+          if (node.name !== 'parent') {
+            result += this.renderPartial(node, scope, state);
+          }
+          break;
+      }
     }
 
-    // Reset regex
-    this.variablePattern.lastIndex = 0;
+    return result;
+  }
+
+  /**
+   * Renders an included partial. Parameters are evaluated in the including
+   * scope and shadow its variables inside the partial, which can still read
+   * everything else the caller sees.
+   */
+  private renderPartial(node: IPartialNode, scope: IRenderScope, state: IRenderState): string {
+    const location = `line ${node.position.line}, column ${node.position.column}`;
 
-    // Extract from conditionals
-    const conditionalRegex = new RegExp(this.conditionalPattern);
-    while ((match = conditionalRegex.exec(template)) !== null) {
-      matches.add(match[1]!.trim());
+    if (!Object.prototype.hasOwnProperty.call(state.partials, node.name)) {
+      throw new Error(`Partial not found: ${node.name} (${location})`);
+    }
+    if (state.includeChain.includes(node.name)) {
+      throw new Error(
+        `Circular partial include: ${[...state.includeChain, node.name].join(' -> ')}`
+      );
+    }
+    if (state.includeChain.length >= state.maxPartialDepth) {
+      throw new Error(
+        `Partial include depth limit of ${state.maxPartialDepth} exceeded at ${node.name} (${location})`
+      );
     }
 
-    // Extract from loops
-    const loopRegex = new RegExp(this.loopPattern);
-    while ((match = loopRegex.exec(template)) !== null) {
-      matches.add(match[1]!.trim());
+    let partial = state.compiledPartials.get(node.name);
+    if (!partial) {
+      const given = state.partials[node.name];
+      // Partials passed precompiled come from compilePartial
+      partial =
+        typeof given === 'object'
+          ? (given as ICompiledPartial)
+          : this.compilePartial(node.name, given ?? '');
+      state.compiledPartials.set(node.name, partial);
     }
 
-    // Create variable definitions
-    for (const varName of matches) {
-      if (!variables.has(varName)) {
-        variables.set(varName, {
-          name: varName,
-          description: `Variable ${varName} used in template`,
-          type: 'string', // Default type
-          required: true // Assume required by default
-        });
-      }
+    const values: Record<string, unknown> = {};
+    for (const param of node.params) {
+      values[param.name] = this.evaluate(param.value, scope);
     }
 
-    const result = Array.from(variables.values());
-    childLogger.debug('Variables extracted', { count: result.length });
-    return result;
+    return this.renderNodes(
+      partial.body,
+      { values, parent: scope },
+      {
+        ...state,
+        contexts: partial.contexts,
+        includeChain: [...state.includeChain, node.name]
+      }
+    );
   }
 
-  private processConditionals(template: string, variables: Record<string, unknown>): string {
-    // Create a new regex to avoid state issues
-    const conditionalRegex = /\{\{#if\s+([\w.]+)\}\}([\s\S]*?)\{\{\/if\}\}/g;
-    
-    return template.replace(conditionalRegex, (_, condition, content) => {
-      const value = this.getNestedValue(variables, condition.trim());
-      if (this.isTruthy(value)) {
-        // Return the content as-is, let the main render method handle processing order
-        return content;
+  /**
+   * Renders a loop body once per array item or object entry. Each iteration
+   * binds the alias plus `@index`, `@number` (1-based), `@first`, `@last` and,
+   * for objects, `@key`.
+   */
+  private renderEach(node: IEachNode, scope: IRenderScope, state: IRenderState): string {
+    const collection = this.lookup(scope, node.collection.split('.'));
+
+    let entries: Array<[string | number, unknown]> = [];
+    if (Array.isArray(collection)) {
+      entries = collection.map((item, index) => [index, item]);
+    } else if (collection && typeof collection === 'object' && !(collection instanceof Date)) {
+      entries = Object.entries(collection);
+    }
+
+    if (entries.length === 0) {
+      return this.renderNodes(node.inverse, scope, state);
+    }
+
+    let result = '';
+    entries.forEach(([key, item], index) => {
+      const values: Record<string, unknown> = {
+        [node.alias]: item,
+        '@index': index,
+        '@number': index + 1,
+        '@first': index === 0,
+        '@last': index === entries.length - 1
+      };
+      if (typeof key === 'string') {
+        values['@key'] = key;
       }
-      return '';
+      result += this.renderNodes(node.body, { values, parent: scope }, state);
     });
+
+    return result;
   }
 
-  private processLoops(template: string, variables: Record<string, unknown>): string {
-    // Function to find matching end tag for a given start position
-    const findMatchingEnd = (text: string, startPos: number): number => {
-      let depth = 1;
-      let pos = startPos;
-      
-      while (depth > 0 && pos < text.length) {
-        const nextStart = text.indexOf('{{#each', pos);
-        const nextEnd = text.indexOf('{{/each}}', pos);
-        
-        if (nextEnd === -1) return -1;
-        
-        if (nextStart !== -1 && nextStart < nextEnd) {
-          depth++;
-          pos = nextStart + 7;
-        } else {
-          depth--;
-          if (depth === 0) return nextEnd + 9; // Length of {{/each}}
-          pos = nextEnd + 9;
-        }
+  /**
+   * Collects the variable paths a template reads from its caller, skipping
+   * loop metadata and paths rooted at loop and with aliases since the template
+   * binds those itself.
+   */
+  private collectPaths(
+    nodes: TemplateNode[],
+    locals: Set<string>,
+    paths = new Set<string>()
+  ): Set<string> {
+    const addPath = (path: string) => {
+      if (!path.startsWith('@') && !locals.has(path.split('.', 1)[0] ?? path)) {
+        paths.add(path);
       }
-      
-      return -1;
     };
-    
-    // Process template
-    let result = '';
-    let lastPos = 0;
-    
-    while (true) {
-      const startMatch = template.indexOf('{{#each', lastPos);
-      if (startMatch === -1) {
-        result += template.slice(lastPos);
-        break;
+
+    for (const node of nodes) {
+      switch (node.type) {
+        case 'variable':
+          this.collectExpressionPaths(node.expression, addPath);
+          for (const call of node.filters) {
+            call.args.forEach((arg) => this.collectExpressionPaths(arg, addPath));
+          }
+          break;
+        case 'if':
+        case 'unless':
+          this.collectExpressionPaths(node.condition, addPath);
+          this.collectPaths(node.body, locals, paths);
+          this.collectPaths(node.inverse, locals, paths);
+          break;
+        case 'with':
+          this.collectExpressionPaths(node.expression, addPath);
+          // Without an alias the body reads the value's properties, not variables
+          if (node.alias) {
+            this.collectPaths(node.body, new Set([...locals, node.alias]), paths);
+          }
+          this.collectPaths(node.inverse, locals, paths);
+          break;
+        case 'each':
+          addPath(node.collection);
+          this.collectPaths(node.body, new Set([...locals, node.alias]), paths);
+          this.collectPaths(node.inverse, locals, paths);
+          break;
+        case 'block':
+          this.collectPaths(node.body, locals, paths);
+          break;
+        case 'partial':
+          node.params.forEach((param) => this.collectExpressionPaths(param.value, addPath));
+          break;
       }
-      
-      // Add content before the loop
-      result += template.slice(lastPos, startMatch);
-      
-      // Parse the loop header
-      const headerEnd = template.indexOf('}}', startMatch);
-      if (headerEnd === -1) {
-        result += template.slice(startMatch);
+    }
+
+    return paths;
+  }
+
+  private collectExpressionPaths(node: ExpressionNode, addPath: (path: string) => void): void {
+    switch (node.type) {
+      case 'path':
+        addPath(node.segments.join('.'));
         break;
-      }
-      
-      const header = template.slice(startMatch + 7, headerEnd); // Skip '{{#each'
-      const headerMatch = header.match(/\s+([\w.]+)\s+as\s+(\w+)/);
-      if (!headerMatch) {
-        result += template.slice(startMatch, headerEnd + 2);
-        lastPos = headerEnd + 2;
-        continue;
-      }
-      
-      const [, arrayVar, itemName] = headerMatch;
-      const contentStart = headerEnd + 2;
-      const endPos = findMatchingEnd(template, contentStart);
-      
-      if (endPos === -1) {
-        result += template.slice(startMatch);
+      case 'unary':
+        this.collectExpressionPaths(node.argument, addPath);
+        break;
+      case 'binary':
+      case 'logical':
+        this.collectExpressionPaths(node.left, addPath);
+        this.collectExpressionPaths(node.right, addPath);
         break;
+    }
+  }
+
+  /**
+   * Works out the Markdown context of every variable tag from the source text
+   * before it on the same line.
+   */
+  private collectContexts(
+    source: string,
+    nodes: TemplateNode[]
+  ): Map<IVariableNode, IMarkdownContext> {
+    const lines = source.split('\n');
+    const contexts = new Map<IVariableNode, IMarkdownContext>();
+
+    walkTemplate(nodes, (node) => {
+      if (node.type === 'variable') {
+        const line = lines[node.position.line - 1] ?? '';
+        contexts.set(node, detectMarkdownContext(line.slice(0, node.position.column - 1)));
       }
-      
-      const content = template.slice(contentStart, endPos - 9); // Exclude {{/each}}
-      const array = this.getNestedValue(variables, arrayVar!.trim());
-      
-      if (Array.isArray(array)) {
-        for (const item of array) {
-          const itemVars = { ...variables, [itemName!]: item };
-          result += this.render(content, itemVars);
-        }
+    });
+
+    return contexts;
+  }
+
+  /**
+   * Records the paths of a variable tag that resolve to nothing, so strict
+   * and warn modes can point at the exact tag in the template.
+   */
+  private recordUndefined(node: IVariableNode, scope: IRenderScope, state: IRenderState): void {
+    this.collectExpressionPaths(node.expression, (path) => {
+      if (this.lookup(scope, path.split('.')) === undefined) {
+        state.undefinedReferences.push({
+          name: path,
+          line: node.position.line,
+          column: node.position.column
+        });
       }
-      
-      lastPos = endPos;
+    });
+  }
+
+  private evaluateVariable(node: IVariableNode, scope: IRenderScope): unknown {
+    let value = this.evaluate(node.expression, scope);
+
+    for (const call of node.filters) {
+      const filter = this.filters.get(call.name);
+      if (!filter) {
+        this.logger.warn('Unknown template filter, value passed through unchanged', {
+          component: 'TemplateRenderer',
+          filter: call.name,
+          line: node.position.line
+        });
+        continue;
+      }
+
+      const args = call.args.map((arg) => this.evaluate(arg, scope));
+      value = filter(value, ...args);
     }
-    
-    return result;
+
+    return value;
   }
 
-  private processVariables(template: string, variables: Record<string, unknown>): string {
-    return template.replace(this.variablePattern, (_, varName) => {
-      const value = this.getNestedValue(variables, varName.trim());
-      return value !== undefined ? String(value) : '';
-    });
+  private evaluate(node: ExpressionNode, scope: IRenderScope): unknown {
+    return this.evaluator.evaluate(node, (segments) => this.lookup(scope, segments));
+  }
+
+  private lookup(scope: IRenderScope, segments: string[]): unknown {
+    const [head = '', ...rest] = segments;
+
+    let frame: IRenderScope | undefined = scope;
+    while (frame) {
+      if (Object.prototype.hasOwnProperty.call(frame.values, head)) {
+        return rest.reduce(readProperty, frame.values[head]);
+      }
+      frame = frame.parent;
+    }
+
+    return undefined;
   }
 
   private getNestedValue(obj: Record<string, unknown>, path: string): unknown {
@@ -271,6 +712,38 @@ export class TemplateRenderer implements ITemplateRenderer {
     return current;
   }
 
+  /**
+   * Returns a copy of `obj` with the dotted `path` set, copying each object on
+   * the way so the caller's variables are never mutated.
+   */
+  private setNestedValue(
+    obj: Record<string, unknown>,
+    path: string,
+    value: unknown
+  ): Record<string, unknown> {
+    const [head = '', ...rest] = path.split('.');
+    if (rest.length === 0) {
+      return { ...obj, [head]: value };
+    }
+
+    const child = obj[head];
+    const nested =
+      child && typeof child === 'object' && !Array.isArray(child)
+        ? (child as Record<string, unknown>)
+        : {};
+    return { ...obj, [head]: this.setNestedValue(nested, rest.join('.'), value) };
+  }
+
+  private resolveDefault(varDef: ITemplateVariable): unknown {
+    const compute =
+      varDef.type === 'date' &&
+      typeof varDef.default === 'string' &&
+      Object.prototype.hasOwnProperty.call(COMPUTED_DATE_DEFAULTS, varDef.default)
+        ? COMPUTED_DATE_DEFAULTS[varDef.default]
+        : undefined;
+    return compute ? compute() : varDef.default;
+  }
+
   private validateType(value: unknown, type: string): boolean {
     switch (type) {
       case 'string':
@@ -339,12 +812,7 @@ export class TemplateRenderer implements ITemplateRenderer {
   }
 
   private isTruthy(value: unknown): boolean {
-    if (value === null || value === undefined) return false;
-    if (typeof value === 'boolean') return value;
-    if (typeof value === 'number') return value !== 0;
-    if (typeof value === 'string') return value.length > 0;
-    if (Array.isArray(value)) return value.length > 0;
-    return true;
+    return this.evaluator.isTruthy(value);
   }
 
   private flattenKeys(obj: Record<string, unknown>, prefix = ''): string[] {
@@ -0,0 +1,343 @@
+/**
+ * Text analysis for knowledge search: splits text into lowercase words,
+ * drops stop words and reduces each word to its Porter stem, so "tests",
+ * "testing" and "tested" all index as "test" while "attestation" does not.
+ */
+
+export interface IToken {
+  term: string; // Stemmed, lowercase form used for matching
+  start: number; // Offsets of the original word in the analyzed text
+  end: number;
+}
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+export const STOP_WORDS: ReadonlySet<string> = new Set([
+  'a',
+  'about',
+  'after',
+  'all',
+  'also',
+  'an',
+  'and',
+  'any',
+  'are',
+  'as',
+  'at',
+  'be',
+  'because',
+  'been',
+  'before',
+  'being',
+  'but',
+  'by',
+  'can',
+  'could',
+  'did',
+  'do',
+  'does',
+  'each',
+  'for',
+  'from',
+  'had',
+  'has',
+  'have',
+  'how',
+  'if',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'may',
+  'more',
+  'most',
+  'must',
+  'no',
+  'not',
+  'of',
+  'on',
+  'or',
+  'other',
+  'our',
+  'should',
+  'so',
+  'some',
+  'such',
+  'than',
+  'that',
+  'the',
+  'their',
+  'them',
+  'then',
+  'there',
+  'these',
+  'they',
+  'this',
+  'those',
+  'to',
+  'too',
+  'under',
+  'up',
+  'was',
+  'we',
+  'were',
+  'what',
+  'when',
+  'where',
+  'which',
+  'while',
+  'who',
+  'will',
+  'with',
+  'would',
+  'you',
+  'your'
+]);
+
+export function tokenize(text: string): IToken[] {
+  const tokens: IToken[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0].toLowerCase();
+    if (STOP_WORDS.has(word)) {
+      continue;
+    }
+    const start = match.index ?? 0;
+    tokens.push({ term: stem(word), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Stemmed terms of a text, in order and with repeats.
+ */
+export function analyze(text: string): string[] {
+  return tokenize(text).map((token) => token.term);
+}
+
+/**
+ * Optimal string alignment distance: insertions, deletions, substitutions and
+ * swaps of adjacent letters each cost one edit. Gives up early and returns
+ * `max + 1` once the distance is known to exceed `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const next = [i];
+    let rowMinimum = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let distance = Math.min(
+        (row[j] ?? Infinity) + 1,
+        (next[j - 1] ?? Infinity) + 1,
+        (row[j - 1] ?? Infinity) + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, (previousRow[j - 2] ?? Infinity) + 1);
+      }
+      next.push(distance);
+      rowMinimum = Math.min(rowMinimum, distance);
+    }
+    if (rowMinimum > max) {
+      return max + 1;
+    }
+    previousRow = row;
+    row = next;
+  }
+  return row[b.length] ?? max + 1;
+}
+
+// Porter stemmer (M.F. Porter, 1980)
+
+const STEP2_SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'],
+  ['tional', 'tion'],
+  ['enci', 'ence'],
+  ['anci', 'ance'],
+  ['izer', 'ize'],
+  ['bli', 'ble'],
+  ['alli', 'al'],
+  ['entli', 'ent'],
+  ['eli', 'e'],
+  ['ousli', 'ous'],
+  ['ization', 'ize'],
+  ['ation', 'ate'],
+  ['ator', 'ate'],
+  ['alism', 'al'],
+  ['iveness', 'ive'],
+  ['fulness', 'ful'],
+  ['ousness', 'ous'],
+  ['aliti', 'al'],
+  ['iviti', 'ive'],
+  ['biliti', 'ble'],
+  ['logi', 'log']
+];
+
+const STEP3_SUFFIXES: Array<[string, string]> = [
+  ['icate', 'ic'],
+  ['ative', ''],
+  ['alize', 'al'],
+  ['iciti', 'ic'],
+  ['ical', 'ic'],
+  ['ful', ''],
+  ['ness', '']
+];
+
+const STEP4_SUFFIXES = [
+  'al',
+  'ance',
+  'ence',
+  'er',
+  'ic',
+  'able',
+  'ible',
+  'ant',
+  'ement',
+  'ment',
+  'ent',
+  'ion',
+  'ou',
+  'ism',
+  'ate',
+  'iti',
+  'ous',
+  'ive',
+  'ize'
+];
+
+function isConsonant(word: string, i: number): boolean {
+  const char = word.charAt(i);
+  if ('aeiou'.includes(char)) {
+    return false;
+  }
+  if (char === 'y') {
+    return i === 0 || !isConsonant(word, i - 1);
+  }
+  return true;
+}
+
+/**
+ * The number of vowel-consonant sequences in the word: m in [C](VC)^m[V].
+ */
+function measure(word: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < word.length && isConsonant(word, i)) i++;
+  while (i < word.length) {
+    while (i < word.length && !isConsonant(word, i)) i++;
+    if (i >= word.length) break;
+    m++;
+    while (i < word.length && isConsonant(word, i)) i++;
+  }
+  return m;
+}
+
+function hasVowel(word: string): boolean {
+  for (let i = 0; i < word.length; i++) {
+    if (!isConsonant(word, i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+/**
+ * Consonant-vowel-consonant ending where the last consonant is not w, x or y,
+ * as in "hop" or "fil".
+ */
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  return (
+    n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !'wxy'.includes(word.charAt(n - 1))
+  );
+}
+
+function replaceSuffix(word: string, rules: Array<[string, string]>, minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stemmed = word.slice(0, -suffix.length);
+      return measure(stemmed) > minMeasure ? stemmed + replacement : word;
+    }
+  }
+  return word;
+}
+
+export function stem(input: string): string {
+  let word = input.toLowerCase();
+  if (word.length <= 2 || /\d/.test(word)) {
+    return word;
+  }
+
+  // Step 1a: plurals
+  if (word.endsWith('sses')) word = word.slice(0, -2);
+  else if (word.endsWith('ies')) word = word.slice(0, -2);
+  else if (!word.endsWith('ss') && word.endsWith('s')) word = word.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  if (word.endsWith('eed')) {
+    if (measure(word.slice(0, -3)) > 0) word = word.slice(0, -1);
+  } else {
+    const suffix = word.endsWith('ed') ? 'ed' : word.endsWith('ing') ? 'ing' : '';
+    if (suffix && hasVowel(word.slice(0, -suffix.length))) {
+      word = word.slice(0, -suffix.length);
+      if (word.endsWith('at') || word.endsWith('bl') || word.endsWith('iz')) {
+        word += 'e';
+      } else if (endsWithDoubleConsonant(word) && !'lsz'.includes(word.charAt(word.length - 1))) {
+        word = word.slice(0, -1);
+      } else if (measure(word) === 1 && endsWithCvc(word)) {
+        word += 'e';
+      }
+    }
+  }
+
+  // Step 1c: y -> i
+  if (word.endsWith('y') && hasVowel(word.slice(0, -1))) {
+    word = `${word.slice(0, -1)}i`;
+  }
+
+  // Steps 2 and 3: map double and single suffixes onto simpler ones
+  word = replaceSuffix(word, STEP2_SUFFIXES, 0);
+  word = replaceSuffix(word, STEP3_SUFFIXES, 0);
+
+  // Step 4: drop suffixes from long stems
+  for (const suffix of STEP4_SUFFIXES) {
+    if (word.endsWith(suffix)) {
+      const stemmed = word.slice(0, -suffix.length);
+      if (
+        measure(stemmed) > 1 &&
+        (suffix !== 'ion' || stemmed.endsWith('s') || stemmed.endsWith('t'))
+      ) {
+        word = stemmed;
+      }
+      break;
+    }
+  }
+
+  // Step 5: tidy up a final e and a double l
+  if (word.endsWith('e')) {
+    const stemmed = word.slice(0, -1);
+    const m = measure(stemmed);
+    if (m > 1 || (m === 1 && !endsWithCvc(stemmed))) {
+      word = stemmed;
+    }
+  }
+  if (measure(word) > 1 && endsWithDoubleConsonant(word) && word.endsWith('l')) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+}
@@ -0,0 +1,95 @@
+import { injectable } from 'inversify';
+import type {
+  ITemplateVariable,
+  IValidationError,
+  IVariableValidatorRegistry,
+  VariableValidator,
+  VariableValidatorResult
+} from '../types/ContentTypes.js';
+
+/**
+ * Named validators referenced by `validation.custom` in variable definitions.
+ * Validators return `true` when the value is valid, `false` or an error
+ * message otherwise, and may do so asynchronously.
+ */
+@injectable()
+export class VariableValidatorRegistry implements IVariableValidatorRegistry {
+  private validators: Map<string, VariableValidator> = new Map();
+
+  register(name: string, validator: VariableValidator): void {
+    if (!name) {
+      throw new Error('Validator name is required');
+    }
+    this.validators.set(name, validator);
+  }
+
+  get(name: string): VariableValidator | undefined {
+    return this.validators.get(name);
+  }
+
+  has(name: string): boolean {
+    return this.validators.has(name);
+  }
+
+  names(): string[] {
+    return Array.from(this.validators.keys());
+  }
+
+  run(
+    name: string,
+    value: unknown,
+    variable: ITemplateVariable
+  ): IValidationError[] | Promise<IValidationError[]> {
+    const validator = this.validators.get(name);
+    if (!validator) {
+      return [
+        {
+          path: variable.name,
+          message: `Unknown custom validator '${name}'`,
+          type: 'missing'
+        }
+      ];
+    }
+
+    try {
+      const result = validator(value, variable);
+      if (result instanceof Promise) {
+        return result.then(
+          (outcome) => this.toErrors(name, variable, outcome),
+          (error) => this.toFailure(name, variable, error)
+        );
+      }
+      return this.toErrors(name, variable, result);
+    } catch (error) {
+      return this.toFailure(name, variable, error);
+    }
+  }
+
+  private toErrors(
+    name: string,
+    variable: ITemplateVariable,
+    outcome: VariableValidatorResult
+  ): IValidationError[] {
+    if (outcome === true) {
+      return [];
+    }
+
+    return [
+      {
+        path: variable.name,
+        message: typeof outcome === 'string' ? outcome : `Value failed custom validation '${name}'`,
+        type: 'invalid'
+      }
+    ];
+  }
+
+  private toFailure(name: string, variable: ITemplateVariable, error: unknown): IValidationError[] {
+    return [
+      {
+        path: variable.name,
+        message: `Custom validator '${name}' failed: ${(error as Error).message ?? String(error)}`,
+        type: 'invalid'
+      }
+    ];
+  }
+}
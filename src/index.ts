@@ -6,13 +6,48 @@ import 'reflect-metadata';
 
 // Export types
 export * from './types/ContentTypes.js';
+export * from './types/TemplateAst.js';
+export * from './types/KnowledgeQuery.js';
 
 // Export implementations
-export { TemplateRenderer } from './implementations/TemplateRenderer.js';
-export { ContentLoader } from './implementations/ContentLoader.js';
+export {
+  TemplateRenderer,
+  UndefinedVariableError,
+  DEFAULT_MAX_PARTIAL_DEPTH
+} from './implementations/TemplateRenderer.js';
+export { ContentLoader, vectorIndexPath } from './implementations/ContentLoader.js';
 export { ContentValidator } from './implementations/ContentValidator.js';
 export { ContentManager } from './implementations/ContentManager.js';
 export { TemplateInheritance } from './implementations/TemplateInheritance.js';
+export { TemplateLexer } from './implementations/TemplateLexer.js';
+export { TemplateParser, walkTemplate } from './implementations/TemplateParser.js';
+export { ExpressionParser, ExpressionSyntaxError } from './implementations/ExpressionParser.js';
+export { ExpressionEvaluator } from './implementations/ExpressionEvaluator.js';
+export {
+  TemplateFilterRegistry,
+  BUILTIN_FILTERS,
+  formatDate,
+  stringifyValue,
+  escapeMarkdown,
+  slugify
+} from './implementations/TemplateFilterRegistry.js';
+export { KnowledgeQueryParser } from './implementations/KnowledgeQueryParser.js';
+export { HashedEmbeddingProvider } from './implementations/HashedEmbeddingProvider.js';
+export { VariableValidatorRegistry } from './implementations/VariableValidatorRegistry.js';
+export {
+  ContentExporter,
+  DEFAULT_STYLESHEET,
+  PAGE_BREAK_MARKER
+} from './implementations/ContentExporter.js';
+export { DocxExporter } from './implementations/DocxExporter.js';
+export { ConfluenceExporter } from './implementations/ConfluenceExporter.js';
+export {
+  detectMarkdownContext,
+  escapeHtml,
+  escapeMarkdownContext,
+  escapeOutput
+} from './implementations/OutputEscaper.js';
+export type { IMarkdownContext } from './implementations/OutputEscaper.js';
 
 // Export injection tokens
 export const CONTENT_TYPES = {
@@ -20,7 +55,11 @@ export const CONTENT_TYPES = {
   IContentLoader: Symbol.for('IContentLoader'),
   IContentValidator: Symbol.for('IContentValidator'),
   IContentManager: Symbol.for('IContentManager'),
-  ITemplateInheritance: Symbol.for('ITemplateInheritance')
+  ITemplateInheritance: Symbol.for('ITemplateInheritance'),
+  ITemplateFilterRegistry: Symbol.for('ITemplateFilterRegistry'),
+  IVariableValidatorRegistry: Symbol.for('IVariableValidatorRegistry'),
+  IContentExporter: Symbol.for('IContentExporter'),
+  IEmbeddingProvider: Symbol.for('IEmbeddingProvider')
 };
 
 // Export helper functions
@@ -24,7 +24,7 @@ export const TEMPLATE_SCHEMAS = {
       },
       category: {
         type: 'string',
-        enum: ['phase', 'document', 'deliverable', 'checklist'],
+        enum: ['phase', 'document', 'deliverable', 'checklist', 'partial'],
         description: 'Template category'
       },
       phase: {
@@ -54,7 +54,16 @@ export const TEMPLATE_SCHEMAS = {
       },
       parent: {
         type: 'string',
-        description: 'Parent template ID for inheritance'
+        description: 'Parent template ID for inheritance, optionally pinned as id@range'
+      },
+      mixins: {
+        type: 'array',
+        items: {
+          type: 'string'
+        },
+        uniqueItems: true,
+        description:
+          'Mixin template IDs composed over the parent, highest precedence first; each may be pinned as id@range'
       },
       tags: {
         type: 'array',
@@ -62,9 +71,43 @@ export const TEMPLATE_SCHEMAS = {
           type: 'string'
         },
         description: 'Template tags for categorization'
+      },
+      format: {
+        type: 'string',
+        enum: ['markdown', 'html', 'text'],
+        description: 'Output format used to escape variable values'
+      },
+      deprecated: {
+        $ref: '#/definitions/deprecation'
+      },
+      updated: {
+        type: 'string',
+        description: 'ISO 8601 date of the last change, used to sort by recency'
       }
     },
     definitions: {
+      deprecation: {
+        type: 'object',
+        required: ['since'],
+        properties: {
+          since: {
+            type: 'string',
+            description: 'Version that deprecated it'
+          },
+          replacedBy: {
+            type: 'string',
+            description: 'Replacement template reference, or variable name for variables'
+          },
+          message: {
+            type: 'string'
+          },
+          variables: {
+            type: 'object',
+            additionalProperties: { type: 'string' },
+            description: 'Old variable names mapped to the replacement template variables'
+          }
+        }
+      },
       templateVariable: {
         type: 'object',
         required: ['name', 'type', 'required'],
@@ -104,6 +147,18 @@ export const TEMPLATE_SCHEMAS = {
                 type: 'string'
               }
             }
+          },
+          merge: {
+            type: 'string',
+            enum: ['override', 'extend', 'final'],
+            description: 'How a redefinition combines with the inherited variable'
+          },
+          sealed: {
+            type: 'boolean',
+            description: 'Descendants may only redefine the variable with merge: extend'
+          },
+          deprecated: {
+            $ref: '#/definitions/deprecation'
           }
         }
       }
@@ -180,6 +235,10 @@ export const TEMPLATE_SCHEMAS = {
             items: {
               type: 'string'
             }
+          },
+          updated: {
+            type: 'string',
+            description: 'ISO 8601 date of the last change, used to sort by recency'
           }
         }
       },
@@ -6,23 +6,59 @@
 export interface ISDLCTemplate {
   id: string;
   name: string;
-  category: 'phase' | 'document' | 'deliverable' | 'checklist';
+  category: 'phase' | 'document' | 'deliverable' | 'checklist' | 'partial';
   phase?: string;
   version: string;
   description: string;
   variables: ITemplateVariable[];
   content: string;
   parent?: string; // For template inheritance
+  mixins?: string[]; // Composed over the parent; earlier mixins take precedence
   tags?: string[];
+  format?: OutputFormat; // Escaping applied to variable values; unescaped when omitted
+  deprecated?: IDeprecation;
+  updated?: string; // ISO 8601 date of the last change
 }
 
+export type OutputFormat = 'markdown' | 'html' | 'text';
+
 export interface ITemplateVariable {
   name: string;
   description: string;
   type: 'string' | 'number' | 'boolean' | 'date' | 'array' | 'object';
   required: boolean;
-  default?: unknown;
+  default?: unknown; // 'today' or 'now' compute the current date for date variables
   validation?: IVariableValidation;
+  merge?: VariableMergeStrategy; // How a redefinition combines with the inherited variable
+  sealed?: boolean; // Descendants may only redefine it with merge: extend
+  deprecated?: IDeprecation; // replacedBy names the variable that takes over its value
+}
+
+/**
+ * `override` (the default) replaces the inherited definition, `extend` keeps
+ * it and adds validation constraints, and `final` overrides and forbids any
+ * further redefinition.
+ */
+export type VariableMergeStrategy = 'override' | 'extend' | 'final';
+
+/**
+ * Marks a template or variable as deprecated. On a template, `replacedBy` is
+ * the template rendered in its place and `variables` maps the old variable
+ * names to the replacement's.
+ */
+export interface IDeprecation {
+  since: string; // Version that deprecated it
+  replacedBy?: string;
+  message?: string;
+  variables?: Record<string, string>;
+}
+
+export interface IDeprecationNotice {
+  templateId: string;
+  variable?: string; // Set when a variable, rather than the template, is deprecated
+  since: string;
+  replacedBy?: string;
+  message: string;
 }
 
 export interface IVariableValidation {
@@ -30,7 +66,7 @@ export interface IVariableValidation {
   min?: number;
   max?: number;
   enum?: unknown[];
-  custom?: string; // Custom validation function name
+  custom?: string; // Name of a validator in the IVariableValidatorRegistry
 }
 
 // Knowledge base types
@@ -43,6 +79,7 @@ export interface IKnowledgeEntry {
   tags: string[];
   metadata?: Record<string, unknown>;
   relatedEntries?: string[];
+  updated?: string; // ISO 8601 date of the last change
 }
 
 export interface IKnowledgeBase {
@@ -69,42 +106,286 @@ export interface ITagDefinition {
 // Content management types
 export interface IContentManager {
   getTemplate(templateId: string): Promise<ISDLCTemplate | undefined>;
+  getTemplateVersions(templateId: string): string[];
   getAllTemplates(filter?: ITemplateFilter): Promise<ISDLCTemplate[]>;
-  renderTemplate(templateId: string, variables: Record<string, unknown>): Promise<string>;
-  validateTemplate(template: ISDLCTemplate): IContentValidationResult;
-  
+  getTemplatePage(filter?: ITemplateFilter): Promise<IPage<ISDLCTemplate>>;
+  renderTemplate(
+    templateId: string,
+    variables: Record<string, unknown>,
+    options: IRenderOptions & { warn: true }
+  ): Promise<IRenderOutput>;
+  renderTemplate(
+    templateId: string,
+    variables: Record<string, unknown>,
+    options?: IRenderOptions
+  ): Promise<string>;
+  renderTemplateDetailed(
+    templateId: string,
+    variables: Record<string, unknown>,
+    options?: IRenderOptions
+  ): Promise<IRenderResult>;
+  validateTemplate(template: ISDLCTemplate): Promise<IContentValidationResult>;
+
   getKnowledgeEntry(entryId: string): Promise<IKnowledgeEntry | undefined>;
   searchKnowledge(query: IKnowledgeQuery): Promise<IKnowledgeEntry[]>;
+  searchKnowledgeRanked(query: IKnowledgeQuery): Promise<IKnowledgeSearchResult[]>;
+  searchKnowledgePage(query: IKnowledgeQuery): Promise<IPage<IKnowledgeSearchResult>>;
+  semanticSearch(query: string, k?: number): Promise<ISemanticSearchResult[]>;
   getRelatedKnowledge(entryId: string): Promise<IKnowledgeEntry[]>;
 }
 
-export interface ITemplateFilter {
+/**
+ * Criteria a template must all meet. They are checked against the resolved
+ * template, so inherited tags and variables count, but results are the
+ * templates as declared.
+ */
+export interface ITemplateFilter extends IPageOptions {
   category?: string;
   phase?: string;
-  tags?: string[];
-  parent?: string;
+  tags?: string[] | ITagFilter; // A plain list matches any of the tags
+  text?: string; // Every word must appear in the id, name or description
+  version?: string; // Semver range; the highest matching version of each template
+  hasVariable?: string | string[]; // Every named variable must be declared or inherited
+  parent?: string; // Direct parent
+  inheritsFrom?: string; // Any ancestor, through parents or mixins
+  sort?: 'title' | 'updated'; // Load order when omitted
+}
+
+export interface ITagFilter {
+  all?: string[];
+  any?: string[];
+  none?: string[];
 }
 
-export interface IKnowledgeQuery {
+export interface IKnowledgeQuery extends IPageOptions {
+  // Query language: words, "phrases", -exclusions, tag:/phase:/category: and OR
   text?: string;
   category?: string;
   phase?: string;
   tags?: string[];
-  limit?: number;
+  fuzzy?: boolean; // Match misspelled words, default true
+  sort?: 'score' | 'title' | 'updated'; // score with text, else knowledge base order
+}
+
+// Paging, sorting and facets
+export type SortOrder = 'asc' | 'desc';
+
+export interface IPageOptions {
+  limit?: number; // Page size; all remaining results when omitted
+  offset?: number; // Results to skip
+  cursor?: string; // nextCursor of the previous page, used instead of offset
+  order?: SortOrder; // Defaults to desc for score and updated, asc for title
+}
+
+export interface IPage<T> {
+  items: T[];
+  total: number; // Results across all pages
+  offset: number;
+  nextCursor?: string; // Absent on the last page
+  facets: IFacetCounts; // Counted over all results, not just this page
+}
+
+export interface IFacetCounts {
+  category: Record<string, number>;
+  phase: Record<string, number>;
+  tag: Record<string, number>;
+}
+
+export interface IKnowledgeSearchResult {
+  entry: IKnowledgeEntry;
+  score: number; // BM25 relevance; 0 when the query has no text
+  matchedTerms: string[]; // Stemmed query terms found in the entry
+  highlights: IKnowledgeHighlights;
+}
+
+export interface IKnowledgeHighlights {
+  title: string; // Title with matched words wrapped in **
+  snippet: string; // Content excerpt around the first match, matches wrapped in **
+}
+
+export interface ISemanticSearchResult extends IKnowledgeSearchResult {
+  // score blends both: keyword relevance scaled to the best match, and similarity
+  keywordScore: number; // BM25 relevance, 0 when the words don't match
+  semanticScore: number; // Cosine similarity of the embeddings, at least 0
+}
+
+// Semantic search
+export interface IEmbeddingProvider {
+  readonly id: string; // Stored vectors from another provider are recomputed
+  readonly dimensions: number;
+  fit?(corpus: string[]): void; // Called with every entry's text before entries are embedded
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Persisted embeddings of knowledge entries, keyed by entry id
+export interface IKnowledgeVectorIndex {
+  provider: string;
+  dimensions: number;
+  entries: Record<string, IKnowledgeVector>;
+}
+
+export interface IKnowledgeVector {
+  hash: string; // Hash of the embedded text, to detect changed entries
+  vector: number[];
 }
 
 // Template rendering
+export interface IRenderOptions {
+  strict?: boolean; // Throw an UndefinedVariableError for undefined references
+  warn?: boolean; // Return undefined references as warnings alongside the output
+  format?: OutputFormat; // Escape variable values for this format; {{{raw}}} is never escaped
+  partials?: Record<string, string | CompiledPartial>; // Each partial available to {{> id}} includes
+  maxPartialDepth?: number; // Deepest allowed chain of nested includes, 10 by default
+}
+
+export interface IUndefinedReference {
+  name: string;
+  line: number;
+  column: number;
+}
+
+export interface IRenderWarning extends IUndefinedReference {
+  message: string;
+}
+
+export interface IRenderOutput {
+  output: string;
+  warnings: IRenderWarning[];
+}
+
+export interface IRenderResult extends IRenderOutput {
+  templateId: string;
+  resolvedChain: string[]; // The template followed by its ancestors, nearest first
+  duration: number;
+  usedVariables: string[]; // Template references that resolved to a value
+  unusedVariables: string[]; // Supplied variables the template never reads
+  appliedDefaults: string[];
+  deprecations: IDeprecationNotice[]; // Deprecated templates and variables the render went through
+}
+
+export interface CompiledTemplate {
+  (variables: Record<string, unknown>, options: IRenderOptions & { warn: true }): IRenderOutput;
+  (variables: Record<string, unknown>, options?: IRenderOptions): string;
+}
+
+// A partial parsed once by ITemplateRenderer.compilePartial, for reuse across renders
+export interface CompiledPartial {
+  readonly source: string;
+  readonly includes: string[]; // Ids of the partials it includes
+}
+
 export interface ITemplateRenderer {
-  render(template: string, variables: Record<string, unknown>): string;
-  validateVariables(template: ISDLCTemplate, variables: Record<string, unknown>): IContentValidationResult;
+  render(
+    template: string,
+    variables: Record<string, unknown>,
+    options: IRenderOptions & { warn: true }
+  ): IRenderOutput;
+  render(template: string, variables: Record<string, unknown>, options?: IRenderOptions): string;
+  compile(template: string): CompiledTemplate;
+  compilePartial(partialId: string, source: string): CompiledPartial;
+  registerFilter(name: string, filter: TemplateFilter): void;
+  applyDefaults(template: ISDLCTemplate, variables: Record<string, unknown>): IAppliedDefaults;
+  validateVariables(
+    template: ISDLCTemplate,
+    variables: Record<string, unknown>
+  ): IContentValidationResult;
+  validateVariablesAsync(
+    template: ISDLCTemplate,
+    variables: Record<string, unknown>
+  ): Promise<IContentValidationResult>;
   extractVariables(template: string): ITemplateVariable[];
+  extractPartials(template: string): string[];
+}
+
+// Template filters
+export type TemplateFilter = (value: unknown, ...args: unknown[]) => unknown;
+
+export interface ITemplateFilterRegistry {
+  register(name: string, filter: TemplateFilter): void;
+  get(name: string): TemplateFilter | undefined;
+  has(name: string): boolean;
+  names(): string[];
+}
+
+export interface IAppliedDefaults {
+  variables: Record<string, unknown>; // Caller values merged with declared defaults
+  applied: string[]; // Names of the variables that received their default
+}
+
+// Custom variable validators
+export type VariableValidatorResult = boolean | string; // A string is the failure message
+
+export type VariableValidator = (
+  value: unknown,
+  variable: ITemplateVariable
+) => VariableValidatorResult | Promise<VariableValidatorResult>;
+
+export interface IVariableValidatorRegistry {
+  register(name: string, validator: VariableValidator): void;
+  get(name: string): VariableValidator | undefined;
+  has(name: string): boolean;
+  names(): string[];
+  run(
+    name: string,
+    value: unknown,
+    variable: ITemplateVariable
+  ): IValidationError[] | Promise<IValidationError[]>;
+}
+
+// Content export
+export interface ITocEntry {
+  level: number;
+  text: string;
+  anchor: string;
+}
+
+export interface IHtmlExportOptions {
+  title?: string; // Defaults to the first heading
+  toc?: boolean; // Include a generated table of contents (default true)
+  tocDepth?: number; // Deepest heading level listed in the table of contents (default 3)
+  css?: string; // Replaces the default stylesheet
+  themeVariables?: Record<string, string>; // Overrides CSS custom properties, e.g. '--content-accent'
+  pageBreakLevel?: number; // Headings at this level start a new printed page; 0 disables (default 1)
+}
+
+export interface IHtmlExport {
+  html: string;
+  title: string;
+  toc: ITocEntry[];
+}
+
+export interface IDocxExportOptions {
+  title?: string; // Stored in the document properties
+  author?: string;
+}
+
+export interface IContentExporter {
+  toHtml(markdown: string, options?: IHtmlExportOptions): IHtmlExport;
+  toDocx(markdown: string, options?: IDocxExportOptions): Uint8Array;
+  toConfluence(markdown: string): string;
+  exportTemplate(
+    templateId: string,
+    variables: Record<string, unknown>,
+    options?: IHtmlExportOptions
+  ): Promise<IHtmlExport>;
 }
 
 // Content validation
 export interface IContentValidator {
-  validateTemplate(template: ISDLCTemplate): IContentValidationResult;
+  validateTemplate(
+    template: ISDLCTemplate,
+    partialIds?: ReadonlySet<string>
+  ): IContentValidationResult;
   validateKnowledgeEntry(entry: IKnowledgeEntry): IContentValidationResult;
-  validateVariables(variables: ITemplateVariable[], values: Record<string, unknown>): IContentValidationResult;
+  validateVariables(
+    variables: ITemplateVariable[],
+    values: Record<string, unknown>
+  ): IContentValidationResult;
+  validateVariablesAsync(
+    variables: ITemplateVariable[],
+    values: Record<string, unknown>
+  ): Promise<IContentValidationResult>;
+  registerValidator(name: string, validator: VariableValidator): void;
 }
 
 export interface IContentValidationResult {
@@ -129,6 +410,8 @@ export interface IValidationWarning {
 export interface IContentLoader {
   loadTemplates(directory: string): Promise<ISDLCTemplate[]>;
   loadKnowledgeBase(file: string): Promise<IKnowledgeBase>;
+  loadVectorIndex(knowledgeFile: string): Promise<IKnowledgeVectorIndex | undefined>;
+  saveVectorIndex(knowledgeFile: string, index: IKnowledgeVectorIndex): Promise<void>;
   watchForChanges(callback: (change: IContentChange) => void): void;
 }
 
@@ -144,13 +427,35 @@ export interface ITemplateInheritance {
   resolveTemplate(templateId: string): Promise<ISDLCTemplate>;
   mergeTemplates(parent: ISDLCTemplate, child: ISDLCTemplate): ISDLCTemplate;
   getInheritanceChain(templateId: string): Promise<string[]>;
+  getResolutionOrder(templateId: string): Promise<IResolutionOrder>;
+  getVariableConflicts(templateId: string): Promise<IValidationError[]>;
+  findConflicts(template: ISDLCTemplate): Promise<IValidationError[]>;
+  invalidate(templateId: string): string[];
+}
+
+export interface IInheritanceConflict {
+  type: 'variable';
+  name: string;
+  templates: string[]; // Templates defining it differently, highest precedence first
+  resolvedFrom: string; // Template whose definition is used
+  message: string;
+}
+
+export interface IResolutionOrder {
+  templateId: string;
+  order: string[]; // C3 linearization, most specific first
+  bases: Record<string, { parent?: string; mixins: string[] }>; // Direct bases of each template
+  conflicts: IInheritanceConflict[];
+  diagram: string; // Mermaid flowchart of the hierarchy, numbered in resolution order
 }
 
 // Events
-export type ContentEventType = 
+export type ContentEventType =
   | 'template.loaded'
   | 'template.rendered'
   | 'template.validation.failed'
+  | 'template.invalidated'
+  | 'template.deprecated'
   | 'knowledge.loaded'
   | 'knowledge.searched'
   | 'content.changed';
@@ -159,7 +464,9 @@ export interface ContentEventData {
   'template.loaded': { templateId: string; count?: number };
   'template.rendered': { templateId: string; duration: number };
   'template.validation.failed': { templateId: string; errors: IValidationError[] };
+  'template.invalidated': { templateIds: string[] };
+  'template.deprecated': IDeprecationNotice;
   'knowledge.loaded': { count: number };
   'knowledge.searched': { query: IKnowledgeQuery; results: number };
   'content.changed': IContentChange;
-}
\ No newline at end of file
+}
@@ -0,0 +1,50 @@
+/**
+ * Structured form of the knowledge search query language. Words written next
+ * to each other must all match, `OR` separates alternatives and binds
+ * loosest, so `a b OR c` reads as `(a AND b) OR c`.
+ */
+
+export type KnowledgeQueryField = 'tag' | 'phase' | 'category';
+
+// A word, matched by stem and, when fuzzy matching is on, by edit distance
+export interface IKnowledgeTermNode {
+  type: 'term';
+  value: string;
+}
+
+// "quoted words" that must appear next to each other
+export interface IKnowledgePhraseNode {
+  type: 'phrase';
+  value: string;
+}
+
+// tag:security, phase:requirements or category:guideline
+export interface IKnowledgeFieldNode {
+  type: 'field';
+  field: KnowledgeQueryField;
+  value: string;
+}
+
+// -word, -"phrase" or -tag:value
+export interface IKnowledgeNotNode {
+  type: 'not';
+  operand: KnowledgeQueryNode;
+}
+
+export interface IKnowledgeAndNode {
+  type: 'and';
+  operands: KnowledgeQueryNode[];
+}
+
+export interface IKnowledgeOrNode {
+  type: 'or';
+  operands: KnowledgeQueryNode[];
+}
+
+export type KnowledgeQueryNode =
+  | IKnowledgeTermNode
+  | IKnowledgePhraseNode
+  | IKnowledgeFieldNode
+  | IKnowledgeNotNode
+  | IKnowledgeAndNode
+  | IKnowledgeOrNode;
@@ -0,0 +1,172 @@
+/**
+ * AST types produced by the template lexer and parser
+ */
+
+// Source locations
+export interface ISourcePosition {
+  offset: number;
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface ITemplateSyntaxError {
+  message: string;
+  line: number;
+  column: number;
+}
+
+// Lexer tokens
+export interface ITextToken {
+  type: 'text';
+  value: string;
+  position: ISourcePosition;
+}
+
+export interface ITagToken {
+  type: 'tag';
+  body: string; // Trimmed content between the delimiters
+  raw: string; // Full source text of the tag, including delimiters
+  unescaped: boolean; // Written with triple braces: {{{value}}}
+  position: ISourcePosition;
+}
+
+export type TemplateToken = ITextToken | ITagToken;
+
+export interface ITemplateTokenizeResult {
+  tokens: TemplateToken[];
+  errors: ITemplateSyntaxError[];
+}
+
+// Expression nodes used by block conditions
+export interface ILiteralExpression {
+  type: 'literal';
+  value: string | number | boolean | null;
+}
+
+export interface IPathExpression {
+  type: 'path';
+  segments: string[];
+}
+
+export interface IUnaryExpression {
+  type: 'unary';
+  operator: '!' | '-';
+  argument: ExpressionNode;
+}
+
+export interface IBinaryExpression {
+  type: 'binary';
+  operator: '==' | '!=' | '<' | '<=' | '>' | '>=';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export interface ILogicalExpression {
+  type: 'logical';
+  operator: '&&' | '||';
+  left: ExpressionNode;
+  right: ExpressionNode;
+}
+
+export type ExpressionNode =
+  | ILiteralExpression
+  | IPathExpression
+  | IUnaryExpression
+  | IBinaryExpression
+  | ILogicalExpression;
+
+// AST nodes
+export interface ITextNode {
+  type: 'text';
+  value: string;
+  position: ISourcePosition;
+}
+
+export interface IFilterCall {
+  name: string;
+  args: ExpressionNode[];
+}
+
+export interface IVariableNode {
+  type: 'variable';
+  expression: ExpressionNode;
+  filters: IFilterCall[]; // Applied left to right: {{value | filter arg | other}}
+  unescaped: boolean;
+  position: ISourcePosition;
+}
+
+export interface IIfNode {
+  type: 'if';
+  condition: ExpressionNode;
+  body: TemplateNode[];
+  inverse: TemplateNode[]; // {{else}} branch; an {{else if}} chain nests another IIfNode here
+  position: ISourcePosition;
+}
+
+export interface IUnlessNode {
+  type: 'unless';
+  condition: ExpressionNode;
+  body: TemplateNode[];
+  inverse: TemplateNode[];
+  position: ISourcePosition;
+}
+
+export interface IWithNode {
+  type: 'with';
+  expression: ExpressionNode;
+  alias?: string; // Without an alias, object values become the lookup scope
+  body: TemplateNode[];
+  inverse: TemplateNode[];
+  position: ISourcePosition;
+}
+
+export interface IEachNode {
+  type: 'each';
+  collection: string;
+  alias: string;
+  body: TemplateNode[];
+  inverse: TemplateNode[]; // Rendered when the collection is empty or not iterable
+  position: ISourcePosition;
+}
+
+export interface IBlockNode {
+  type: 'block';
+  name: string; // {{#block name}}; child templates override blocks by name
+  body: TemplateNode[];
+  position: ISourcePosition;
+}
+
+// {{super}} inside an overriding block; replaced with the parent's block content
+export interface ISuperNode {
+  type: 'super';
+  position: ISourcePosition;
+}
+
+export interface IPartialParam {
+  name: string;
+  value: ExpressionNode; // Evaluated in the including template's scope
+}
+
+export interface IPartialNode {
+  type: 'partial';
+  name: string;
+  params: IPartialParam[]; // {{> partial-id key=value other="text"}}
+  position: ISourcePosition;
+}
+
+export type TemplateNode =
+  | ITextNode
+  | IVariableNode
+  | IIfNode
+  | IUnlessNode
+  | IWithNode
+  | IEachNode
+  | IBlockNode
+  | ISuperNode
+  | IPartialNode;
+
+export interface ITemplateAst {
+  type: 'template';
+  body: TemplateNode[];
+  errors: ITemplateSyntaxError[];
+}
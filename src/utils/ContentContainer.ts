@@ -8,18 +8,27 @@ import {
   type IContentLoader,
   type IContentValidator,
   type IContentManager,
-  type ITemplateInheritance
+  type ITemplateInheritance,
+  type ITemplateFilterRegistry,
+  type IVariableValidatorRegistry,
+  type IContentExporter,
+  type IEmbeddingProvider
 } from '../index.js';
 import { TemplateRenderer } from '../implementations/TemplateRenderer.js';
 import { ContentLoader } from '../implementations/ContentLoader.js';
 import { ContentValidator } from '../implementations/ContentValidator.js';
 import { ContentManager } from '../implementations/ContentManager.js';
 import { TemplateInheritance } from '../implementations/TemplateInheritance.js';
+import { TemplateFilterRegistry } from '../implementations/TemplateFilterRegistry.js';
+import { VariableValidatorRegistry } from '../implementations/VariableValidatorRegistry.js';
+import { ContentExporter } from '../implementations/ContentExporter.js';
+import { HashedEmbeddingProvider } from '../implementations/HashedEmbeddingProvider.js';
 
 export interface IContentContainerOptions {
   logger: ILogger;
   eventBus: IEventBus;
   fileSystem: IFileSystem;
+  embeddingProvider?: IEmbeddingProvider; // Defaults to offline hashed embeddings
 }
 
 export function createContentContainer(options: IContentContainerOptions): Container {
@@ -29,43 +38,62 @@ export function createContentContainer(options: IContentContainerOptions): Conta
   container.bind<ILogger>('ILogger').toConstantValue(options.logger);
   container.bind<IEventBus>('IEventBus').toConstantValue(options.eventBus);
   container.bind<IFileSystem>('IFileSystem').toConstantValue(options.fileSystem);
+  container
+    .bind<IEmbeddingProvider>('IEmbeddingProvider')
+    .toConstantValue(options.embeddingProvider ?? new HashedEmbeddingProvider());
 
   // Bind content services with string tokens for internal use
-  container.bind<ITemplateRenderer>('ITemplateRenderer')
-    .to(TemplateRenderer)
+  container
+    .bind<ITemplateFilterRegistry>('ITemplateFilterRegistry')
+    .to(TemplateFilterRegistry)
     .inSingletonScope();
 
-  container.bind<IContentLoader>('IContentLoader')
-    .to(ContentLoader)
+  container
+    .bind<IVariableValidatorRegistry>('IVariableValidatorRegistry')
+    .to(VariableValidatorRegistry)
     .inSingletonScope();
 
-  container.bind<IContentValidator>('IContentValidator')
-    .to(ContentValidator)
-    .inSingletonScope();
+  container.bind<ITemplateRenderer>('ITemplateRenderer').to(TemplateRenderer).inSingletonScope();
+
+  container.bind<IContentLoader>('IContentLoader').to(ContentLoader).inSingletonScope();
+
+  container.bind<IContentValidator>('IContentValidator').to(ContentValidator).inSingletonScope();
 
-  container.bind<ITemplateInheritance>('ITemplateInheritance')
+  container
+    .bind<ITemplateInheritance>('ITemplateInheritance')
     .to(TemplateInheritance)
     .inSingletonScope();
 
-  container.bind<IContentManager>('IContentManager')
-    .to(ContentManager)
-    .inSingletonScope();
+  container.bind<IContentManager>('IContentManager').to(ContentManager).inSingletonScope();
+
+  container.bind<IContentExporter>('IContentExporter').to(ContentExporter).inSingletonScope();
 
   // Bind with public symbols
-  container.bind<ITemplateRenderer>(CONTENT_TYPES.ITemplateRenderer)
-    .toService('ITemplateRenderer');
+  container.bind<ITemplateRenderer>(CONTENT_TYPES.ITemplateRenderer).toService('ITemplateRenderer');
 
-  container.bind<IContentLoader>(CONTENT_TYPES.IContentLoader)
-    .toService('IContentLoader');
+  container.bind<IContentLoader>(CONTENT_TYPES.IContentLoader).toService('IContentLoader');
 
-  container.bind<IContentValidator>(CONTENT_TYPES.IContentValidator)
-    .toService('IContentValidator');
+  container.bind<IContentValidator>(CONTENT_TYPES.IContentValidator).toService('IContentValidator');
 
-  container.bind<IContentManager>(CONTENT_TYPES.IContentManager)
-    .toService('IContentManager');
+  container.bind<IContentManager>(CONTENT_TYPES.IContentManager).toService('IContentManager');
 
-  container.bind<ITemplateInheritance>(CONTENT_TYPES.ITemplateInheritance)
+  container
+    .bind<ITemplateInheritance>(CONTENT_TYPES.ITemplateInheritance)
     .toService('ITemplateInheritance');
 
+  container
+    .bind<ITemplateFilterRegistry>(CONTENT_TYPES.ITemplateFilterRegistry)
+    .toService('ITemplateFilterRegistry');
+
+  container
+    .bind<IVariableValidatorRegistry>(CONTENT_TYPES.IVariableValidatorRegistry)
+    .toService('IVariableValidatorRegistry');
+
+  container.bind<IContentExporter>(CONTENT_TYPES.IContentExporter).toService('IContentExporter');
+
+  container
+    .bind<IEmbeddingProvider>(CONTENT_TYPES.IEmbeddingProvider)
+    .toService('IEmbeddingProvider');
+
   return container;
-}
\ No newline at end of file
+}
@@ -0,0 +1,13 @@
+import type { IDeprecation } from '../types/ContentTypes.js';
+
+/**
+ * Builds the notice shown for a deprecated template or variable, e.g.
+ * "Template 'srs' is deprecated since 2.0.0; use 'requirements-spec' instead".
+ */
+export function describeDeprecation(subject: string, deprecation: IDeprecation): string {
+  let message = `${subject} is deprecated since ${deprecation.since}`;
+  if (deprecation.replacedBy) {
+    message += `; use '${deprecation.replacedBy}' instead`;
+  }
+  return deprecation.message ? `${message}. ${deprecation.message}` : message;
+}
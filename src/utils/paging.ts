@@ -0,0 +1,102 @@
+import type { IFacetCounts, IPage, IPageOptions, SortOrder } from '../types/ContentTypes.js';
+
+/**
+ * Anything counted in facets: templates and knowledge entries both have a
+ * category, an optional phase and tags.
+ */
+export interface IFaceted {
+  category: string;
+  phase?: string;
+  tags?: string[];
+}
+
+export function countFacets(items: IFaceted[]): IFacetCounts {
+  const facets: IFacetCounts = { category: {}, phase: {}, tag: {} };
+  for (const item of items) {
+    facets.category[item.category] = (facets.category[item.category] ?? 0) + 1;
+    if (item.phase) {
+      facets.phase[item.phase] = (facets.phase[item.phase] ?? 0) + 1;
+    }
+    for (const tag of new Set(item.tags ?? [])) {
+      facets.tag[tag] = (facets.tag[tag] ?? 0) + 1;
+    }
+  }
+  return facets;
+}
+
+/**
+ * Cursors are opaque to callers; they carry the offset of the next page.
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+export function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Invalid cursor '${cursor}'`);
+}
+
+/**
+ * Cuts one page out of the sorted results. Facets are counted over all of
+ * them so a page can show how many results each refinement would leave.
+ */
+export function paginate<T>(
+  results: T[],
+  options: IPageOptions,
+  facetOf: (result: T) => IFaceted
+): IPage<T> {
+  const offset =
+    options.cursor !== undefined
+      ? decodeCursor(options.cursor)
+      : Math.max(0, Math.floor(options.offset ?? 0));
+  const end =
+    options.limit && options.limit > 0 ? offset + Math.floor(options.limit) : results.length;
+
+  return {
+    items: results.slice(offset, end),
+    total: results.length,
+    offset,
+    nextCursor: end < results.length ? encodeCursor(end) : undefined,
+    facets: countFacets(results.map(facetOf))
+  };
+}
+
+/**
+ * Sorts by a key in the given direction, keeping the original order of
+ * ties. Items without a key go last in either direction.
+ */
+export function sortBy<T>(
+  items: T[],
+  key: (item: T) => string | number | undefined,
+  order: SortOrder
+): T[] {
+  const direction = order === 'asc' ? 1 : -1;
+  return [...items].sort((a, b) => {
+    const left = key(a);
+    const right = key(b);
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    const compared =
+      typeof left === 'string' && typeof right === 'string'
+        ? left.localeCompare(right, undefined, { sensitivity: 'base' })
+        : Number(left) - Number(right);
+    return compared * direction;
+  });
+}
+
+/**
+ * Milliseconds since the epoch for sorting by update date; undefined when
+ * the date is missing or unreadable.
+ */
+export function dateKey(date: string | undefined): number | undefined {
+  const time = date ? Date.parse(date) : NaN;
+  return Number.isNaN(time) ? undefined : time;
+}
@@ -0,0 +1,179 @@
+/**
+ * Version ranges for template references. Templates carry plain
+ * `major.minor.patch` versions, so this covers the npm range syntax used to
+ * pin them: exact versions, `1.x` wildcards, `^` and `~`, comparators, and
+ * `||` alternatives. Pre-release tags are not supported.
+ */
+
+type Version = [number, number, number];
+
+interface IComparator {
+  operator: '<' | '<=' | '>' | '>=' | '=';
+  version: Version;
+}
+
+export interface ITemplateRef {
+  id: string;
+  range?: string; // Undefined selects the latest version
+}
+
+const VERSION_PATTERN = /^(\d+)\.(\d+)\.(\d+)$/;
+const COMPARATOR_PATTERN =
+  /^(<=|>=|<|>|=|\^|~)?v?(\*|x|X|\d+)(?:\.(\*|x|X|\d+))?(?:\.(\*|x|X|\d+))?$/;
+const LATEST = 'latest';
+
+function parseVersion(version: string): Version | undefined {
+  const match = VERSION_PATTERN.exec(version.trim());
+  return match ? [Number(match[1]), Number(match[2]), Number(match[3])] : undefined;
+}
+
+function compare(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Expands one comparator into bounds. Missing parts widen the range the way
+ * npm does: `1.2` means `>=1.2.0 <1.3.0` and `^0.2` means `>=0.2.0 <0.3.0`.
+ */
+function expandComparator(token: string, range: string): IComparator[] {
+  const match = COMPARATOR_PATTERN.exec(token);
+  if (!match) {
+    throw new Error(`Invalid version range '${range}'`);
+  }
+
+  const operator = match[1] ?? '';
+  const parts: number[] = [];
+  for (const part of match.slice(2)) {
+    if (part === undefined || /^[*xX]$/.test(part)) {
+      break;
+    }
+    parts.push(Number(part));
+  }
+
+  if (parts.length === 0) {
+    return [];
+  }
+
+  const floor: Version = [parts[0] ?? 0, parts[1] ?? 0, parts[2] ?? 0];
+  const exact = parts.length === 3;
+  const bump = (index: number): Version => {
+    const next: Version = [0, 0, 0];
+    for (let i = 0; i < index; i++) {
+      next[i] = floor[i] ?? 0;
+    }
+    next[index] = (floor[index] ?? 0) + 1;
+    return next;
+  };
+  const upTo = (index: number): IComparator[] => [
+    { operator: '>=', version: floor },
+    { operator: '<', version: bump(index) }
+  ];
+
+  switch (operator) {
+    case '^': {
+      const firstNonZero = parts.findIndex((part) => part !== 0);
+      return upTo(firstNonZero === -1 ? parts.length - 1 : firstNonZero);
+    }
+    case '~':
+      return upTo(parts.length === 1 ? 0 : 1);
+    case '>':
+      return exact
+        ? [{ operator: '>', version: floor }]
+        : [{ operator: '>=', version: bump(parts.length - 1) }];
+    case '>=':
+      return [{ operator: '>=', version: floor }];
+    case '<':
+      return [{ operator: '<', version: floor }];
+    case '<=':
+      return exact
+        ? [{ operator: '<=', version: floor }]
+        : [{ operator: '<', version: bump(parts.length - 1) }];
+    default:
+      return exact ? [{ operator: '=', version: floor }] : upTo(parts.length - 1);
+  }
+}
+
+function parseRange(range: string): IComparator[][] {
+  const trimmed = range.trim();
+  if (trimmed === '' || trimmed === LATEST) {
+    return [[]];
+  }
+
+  return trimmed.split('||').map((alternative) => {
+    const tokens = alternative
+      .trim()
+      .replace(/(<=|>=|<|>|=|\^|~)\s+/g, '$1')
+      .split(/\s+/)
+      .filter((token) => token.length > 0);
+    if (tokens.length === 0) {
+      throw new Error(`Invalid version range '${range}'`);
+    }
+    return tokens.flatMap((token) => expandComparator(token, range));
+  });
+}
+
+function test(version: Version, comparator: IComparator): boolean {
+  const order = compare(version, comparator.version);
+  switch (comparator.operator) {
+    case '<':
+      return order < 0;
+    case '<=':
+      return order <= 0;
+    case '>':
+      return order > 0;
+    case '>=':
+      return order >= 0;
+    default:
+      return order === 0;
+  }
+}
+
+/**
+ * Throws `Invalid version range '...'` when the range cannot be parsed.
+ */
+export function assertValidRange(range: string): void {
+  parseRange(range);
+}
+
+/**
+ * Orders versions ascending. Invalid versions sort before valid ones.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    return (left ? 1 : 0) - (right ? 1 : 0);
+  }
+  return compare(left, right);
+}
+
+export function satisfies(version: string, range: string): boolean {
+  const parsed = parseVersion(version);
+  if (!parsed) {
+    return false;
+  }
+  return parseRange(range).some((set) => set.every((comparator) => test(parsed, comparator)));
+}
+
+/**
+ * Highest version matching the range, or undefined when none does.
+ */
+export function maxSatisfying(versions: string[], range: string): string | undefined {
+  return versions
+    .filter((version) => satisfies(version, range))
+    .sort(compareVersions)
+    .pop();
+}
+
+/**
+ * Splits `requirements-spec@^1.2` into its template id and version range.
+ * A reference without `@`, or with `@latest`, selects the latest version.
+ */
+export function parseTemplateRef(ref: string): ITemplateRef {
+  const at = ref.indexOf('@');
+  if (at === -1) {
+    return { id: ref };
+  }
+  const range = ref.slice(at + 1).trim();
+  return { id: ref.slice(0, at), range: range === LATEST ? undefined : range };
+}
@@ -0,0 +1,15 @@
+/**
+ * Escapes text for XML element content and double-quoted attributes.
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Inline `<br>` tags, such as the ones escaped table cells use for newlines
+export function isLineBreakTag(html: string): boolean {
+  return /^<br\s*\/?>$/i.test(html.trim());
+}
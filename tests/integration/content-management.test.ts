@@ -1,4 +1,4 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { Container } from 'inversify';
 import { TestEventBus } from '@chasenocap/event-system';
 import type { ILogger } from '@chasenocap/logger';
@@ -6,9 +6,16 @@ import type { IFileSystem } from '@chasenocap/file-system';
 import {
   createContentContainer,
   CONTENT_TYPES,
+  type ContentManager,
   type IContentManager,
+  type ITemplateRenderer,
+  type IContentExporter,
   type ISDLCTemplate,
-  type IKnowledgeBase
+  type ITemplateVariable,
+  type IContentLoader,
+  type IContentChange,
+  type IKnowledgeBase,
+  type ITemplateFilter
 } from '../../src/index.js';
 
 // Mock implementations
@@ -143,13 +150,20 @@ variables:
     type: string
     required: true
     description: Author name
+  - name: status
+    type: string
+    required: true
+    description: Document status
+    default: Draft
 tags:
   - base
   - template
+updated: 2024-03-01
 content: |
   # {{title}}
   
   Author: {{author}}
+  Status: {{status}}
   
   ## Introduction
   
@@ -172,6 +186,7 @@ variables:
 tags:
   - child
   - extended
+updated: 2024-05-15
 content: |
   {{> parent}}
   
@@ -208,6 +223,7 @@ entries:
       - tdd
     relatedEntries:
       - test-pyramid
+    updated: 2023-11-20
   - id: test-pyramid
     category: guideline
     phase: testing
@@ -220,6 +236,7 @@ entries:
     tags:
       - testing
       - architecture
+    updated: 2024-02-10
 `);
   }
 }
@@ -266,6 +283,35 @@ describe('Content Management Integration', () => {
       expect(rendered).toContain('This is the base template content');
     });
 
+    it('should apply declared defaults for omitted variables', async () => {
+      const rendered = await contentManager.renderTemplate('base-template', {
+        title: 'Test Document',
+        author: 'Test Author'
+      });
+      expect(rendered).toContain('Status: Draft');
+
+      const overridden = await contentManager.renderTemplate('base-template', {
+        title: 'Test Document',
+        author: 'Test Author',
+        status: 'Final'
+      });
+      expect(overridden).toContain('Status: Final');
+    });
+
+    it('should support strict and warn render modes', async () => {
+      const variables = { title: 'Test Document', author: 'Test Author' };
+
+      await expect(
+        contentManager.renderTemplate('base-template', variables, { strict: true })
+      ).resolves.toContain('# Test Document');
+
+      const result = await contentManager.renderTemplate('base-template', variables, {
+        warn: true
+      });
+      expect(result.output).toContain('Status: Draft');
+      expect(result.warnings).toEqual([]);
+    });
+
     it('should validate template before rendering', async () => {
       await expect(
         contentManager.renderTemplate('base-template', {
@@ -295,11 +341,87 @@ describe('Content Management Integration', () => {
       const allTemplates = await contentManager.getAllTemplates();
       expect(allTemplates).toHaveLength(2);
 
+      // Children inherit their parent's tags
       const baseTemplates = await contentManager.getAllTemplates({
         tags: ['base']
       });
-      expect(baseTemplates).toHaveLength(1);
-      expect(baseTemplates[0].id).toBe('base-template');
+      expect(baseTemplates.map((t) => t.id)).toEqual(['base-template', 'child-template']);
+
+      const ownTags = await contentManager.getAllTemplates({
+        tags: { any: ['base'], none: ['child'] }
+      });
+      expect(ownTags).toHaveLength(1);
+      expect(ownTags[0].id).toBe('base-template');
+    });
+
+    it('should filter templates on resolved tags, text, variables and ancestry', async () => {
+      const grandchildTemplateYaml = `
+id: grandchild-template
+name: Grandchild Template
+category: document
+version: 1.0.0
+parent: child-template
+description: Narrower variant of the child template
+variables:
+  - name: audience
+    type: string
+    required: false
+    description: Intended readers
+tags:
+  - narrow
+content: |
+  {{> parent}}
+`;
+      await fileSystem.writeFile('templates/grandchild-template.yaml', grandchildTemplateYaml);
+      await contentManager.initialize('templates', 'knowledge.yaml');
+
+      const ids = async (filter: ITemplateFilter) =>
+        (await contentManager.getAllTemplates(filter)).map((t) => t.id);
+
+      expect(await ids({ tags: { all: ['base', 'extended'] } })).toEqual([
+        'child-template',
+        'grandchild-template'
+      ]);
+      expect(await ids({ tags: { all: ['child'], none: ['narrow'] } })).toEqual(['child-template']);
+      expect(await ids({ text: 'extending base' })).toEqual(['child-template']);
+      expect(await ids({ text: 'Grandchild' })).toEqual(['grandchild-template']);
+      expect(await ids({ hasVariable: ['title', 'audience'] })).toEqual(['grandchild-template']);
+      expect(await ids({ parent: 'base-template' })).toEqual(['child-template']);
+      expect(await ids({ inheritsFrom: 'base-template' })).toEqual([
+        'child-template',
+        'grandchild-template'
+      ]);
+      expect(await ids({ version: '^1.0.0', inheritsFrom: 'child-template' })).toEqual([
+        'grandchild-template'
+      ]);
+      expect(await ids({ version: '2.x' })).toEqual([]);
+      await expect(contentManager.getAllTemplates({ version: 'newest' })).rejects.toThrow(
+        "Invalid version range 'newest'"
+      );
+    });
+
+    it('should page, sort and facet templates', async () => {
+      const first = await contentManager.getTemplatePage({ sort: 'updated', limit: 1 });
+      expect(first.items.map((t) => t.id)).toEqual(['child-template']);
+      expect(first.items[0].updated).toBe('2024-05-15');
+      expect(first.total).toBe(2);
+      expect(first.facets).toEqual({
+        category: { document: 2 },
+        phase: {},
+        tag: { base: 2, template: 2, child: 1, extended: 1 }
+      });
+
+      const second = await contentManager.getTemplatePage({
+        sort: 'updated',
+        limit: 1,
+        cursor: first.nextCursor
+      });
+      expect(second.items.map((t) => t.id)).toEqual(['base-template']);
+      expect(second.offset).toBe(1);
+      expect(second.nextCursor).toBeUndefined();
+
+      const byTitle = await contentManager.getAllTemplates({ sort: 'title', order: 'desc' });
+      expect(byTitle.map((t) => t.id)).toEqual(['child-template', 'base-template']);
     });
 
     it('should emit template events', async () => {
@@ -312,7 +434,334 @@ describe('Content Management Integration', () => {
       const renderEvent = emittedEvents.find(e => e.type === 'template.rendered.started');
       expect(renderEvent).toBeDefined();
       expect(renderEvent?.payload.templateId).toBe('base-template');
-      expect(renderEvent?.payload.variableCount).toBe(2);
+      expect(renderEvent?.payload).toEqual({
+        templateId: 'base-template',
+        duration: expect.any(Number)
+      });
+    });
+
+    it('should describe how a document was rendered', async () => {
+      const result = await contentManager.renderTemplateDetailed('child-template', {
+        title: 'Extended Document',
+        author: 'Test Author',
+        section: 'Advanced Features',
+        reviewer: 'Unused Reviewer'
+      });
+
+      expect(result.output).toContain('## Advanced Features');
+      expect(result.templateId).toBe('child-template');
+      expect(result.resolvedChain).toEqual(['child-template', 'base-template']);
+      expect(result.duration).toEqual(expect.any(Number));
+      expect(result.warnings).toEqual([]);
+      expect(result.usedVariables).toEqual(['title', 'author', 'status', 'section']);
+      expect(result.unusedVariables).toEqual(['reviewer']);
+      expect(result.appliedDefaults).toEqual(['status']);
+    });
+
+    it('should keep every version of a template and resolve ranges', async () => {
+      const baseTemplateV2Yaml = `
+id: base-template
+name: Base Template
+category: document
+version: 2.1.0
+description: Second major version of the base template
+variables:
+  - name: title
+    type: string
+    required: true
+    description: Document title
+content: |
+  # {{title}} (v2)
+`;
+      await fileSystem.writeFile('templates/base-template-v2.yaml', baseTemplateV2Yaml);
+      const pinnedChildYaml = `
+id: pinned-child
+name: Pinned Child
+category: document
+version: 1.0.0
+parent: base-template@1.x
+description: Stays on the first major version of its parent
+variables: []
+content: |
+  {{> parent}}
+`;
+      await fileSystem.writeFile('templates/pinned-child.yaml', pinnedChildYaml);
+      await contentManager.initialize('templates', 'knowledge.yaml');
+
+      expect(contentManager.getTemplateVersions('base-template')).toEqual(['2.1.0', '1.0.0']);
+      expect((await contentManager.getTemplate('base-template'))?.version).toBe('2.1.0');
+      expect((await contentManager.getTemplate('base-template@^1.0'))?.version).toBe('1.0.0');
+      expect(await contentManager.getTemplate('base-template@3.x')).toBeUndefined();
+      expect(await contentManager.getTemplate('base-template@bogus!')).toBeUndefined();
+
+      const variables = { title: 'Doc', author: 'Author' };
+      expect(await contentManager.renderTemplate('base-template', variables)).toContain(
+        '# Doc (v2)'
+      );
+      expect(await contentManager.renderTemplate('pinned-child', variables)).toContain(
+        'Author: Author'
+      );
+
+      const all = await contentManager.getAllTemplates({ parent: 'base-template' });
+      expect(all.map((t) => t.id).sort()).toEqual(['child-template', 'pinned-child']);
+    });
+
+    it('should migrate deprecated templates and variables to their replacements', async () => {
+      const oldNoteYaml = `
+id: old-note
+name: Old Note
+category: document
+version: 1.0.0
+description: Superseded by base-template
+deprecated:
+  since: 1.0.0
+  replacedBy: base-template@1.x
+  message: Notes are now base documents.
+  variables:
+    heading: title
+    writer: author
+variables:
+  - name: heading
+    type: string
+    required: true
+    description: Heading
+content: |
+  ## {{heading}}
+`;
+      await fileSystem.writeFile('templates/old-note.yaml', oldNoteYaml);
+      const signedNoteYaml = `
+id: signed-note
+name: Signed Note
+category: document
+version: 1.0.0
+description: Note with a renamed signer variable
+variables:
+  - name: owner
+    type: string
+    required: false
+    description: Old signer name
+    deprecated:
+      since: 1.0.0
+      replacedBy: signer
+  - name: signer
+    type: string
+    required: true
+    description: Signer
+content: |
+  Signed by {{signer}}
+`;
+      await fileSystem.writeFile('templates/signed-note.yaml', signedNoteYaml);
+      await contentManager.initialize('templates', 'knowledge.yaml');
+
+      const result = await contentManager.renderTemplateDetailed('old-note', {
+        heading: 'Release',
+        writer: 'Ada'
+      });
+      expect(result.output).toContain('# Release');
+      expect(result.output).toContain('Author: Ada');
+      expect(result.resolvedChain).toEqual(['base-template']);
+      expect(result.unusedVariables).toEqual([]);
+      expect(result.deprecations).toEqual([
+        {
+          templateId: 'old-note',
+          variable: undefined,
+          since: '1.0.0',
+          replacedBy: 'base-template@1.x',
+          message:
+            "Template 'old-note' is deprecated since 1.0.0; use 'base-template@1.x' instead. Notes are now base documents."
+        }
+      ]);
+
+      const signed = await contentManager.renderTemplateDetailed('signed-note', { owner: 'Grace' });
+      expect(signed.output).toContain('Signed by Grace');
+      expect(signed.deprecations[0]?.message).toBe(
+        "Variable 'owner' of 'signed-note' is deprecated since 1.0.0; use 'signer' instead"
+      );
+
+      const deprecatedEvents = eventBus
+        .getEmittedEvents()
+        .filter((e) => e.type === 'template.deprecated.started');
+      expect(deprecatedEvents.map((e) => e.payload.variable ?? e.payload.templateId)).toEqual([
+        'old-note',
+        'owner'
+      ]);
+    });
+  });
+
+  describe('HTML Export', () => {
+    it('should export a rendered template as an HTML document', async () => {
+      const exporter = container.get<IContentExporter>(CONTENT_TYPES.IContentExporter);
+
+      const result = await exporter.exportTemplate('base-template', {
+        title: 'Exported Document',
+        author: 'Test Author'
+      });
+
+      expect(result.title).toBe('Exported Document');
+      expect(result.toc.map((entry) => entry.anchor)).toEqual([
+        'exported-document',
+        'introduction'
+      ]);
+      expect(result.html).toContain('<h2 id="introduction">Introduction</h2>');
+    });
+  });
+
+  describe('Compiled Template Cache', () => {
+    it('should compile each template version only once', async () => {
+      const renderer = container.get<ITemplateRenderer>(CONTENT_TYPES.ITemplateRenderer);
+      const compileSpy = vi.spyOn(renderer, 'compile');
+
+      for (let i = 0; i < 3; i++) {
+        await contentManager.renderTemplate('base-template', {
+          title: `Document ${i}`,
+          author: 'Author'
+        });
+      }
+
+      expect(compileSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('should invalidate compiled templates on content changes', async () => {
+      const renderer = container.get<ITemplateRenderer>(CONTENT_TYPES.ITemplateRenderer);
+      const variables = { title: 'Doc', author: 'Author' };
+      await contentManager.renderTemplate('base-template', variables);
+
+      // Swap the template content behind the manager's back
+      const template = await contentManager.getTemplate('base-template');
+      if (!template) {
+        throw new Error('base-template is not loaded');
+      }
+      template.content = 'Updated {{title}}';
+
+      const compileSpy = vi.spyOn(renderer, 'compile');
+      await (contentManager as ContentManager).handleContentChange({
+        type: 'template',
+        action: 'modified',
+        id: 'base-template'
+      });
+
+      const rendered = await contentManager.renderTemplate('base-template', variables);
+      expect(rendered).toBe('Updated Doc');
+      expect(compileSpy).toHaveBeenCalledTimes(1);
+
+      const changeEvent = eventBus
+        .getEmittedEvents()
+        .find((e) => e.type === 'content.changed.started');
+      expect(changeEvent?.payload.id).toBe('base-template');
+    });
+
+    it('should re-resolve child templates when a parent file changes', async () => {
+      const variables = { title: 'Doc', author: 'Author', section: 'Extra' };
+      expect(await contentManager.renderTemplate('child-template', variables)).toContain(
+        'This is the base template content.'
+      );
+
+      const path = 'templates/base-template.yaml';
+      const source = await fileSystem.readFile(path);
+      await fileSystem.writeFile(path, source.replace('the base template', 'the updated base'));
+      await (contentManager as ContentManager).handleContentChange({
+        type: 'template',
+        action: 'modified',
+        id: 'base-template',
+        path
+      });
+
+      expect(await contentManager.renderTemplate('child-template', variables)).toContain(
+        'This is the updated base content.'
+      );
+
+      const invalidated = eventBus
+        .getEmittedEvents()
+        .find((e) => e.type === 'template.invalidated.started');
+      expect(invalidated?.payload.templateIds).toEqual(['base-template', 'child-template']);
+    });
+
+    it('should invalidate a changed template whose file can no longer be loaded', async () => {
+      const variables = { title: 'Doc', author: 'Author', section: 'Extra' };
+      await contentManager.renderTemplate('child-template', variables);
+
+      const path = 'templates/base-template.yaml';
+      await fileSystem.deleteFile(path);
+      await (contentManager as ContentManager).handleContentChange({
+        type: 'template',
+        action: 'removed',
+        id: 'base-template',
+        path
+      });
+
+      const invalidated = eventBus
+        .getEmittedEvents()
+        .find((e) => e.type === 'template.invalidated.started');
+      expect(invalidated?.payload.templateIds).toEqual(['base-template', 'child-template']);
+    });
+
+    it('should not let a failed reload escape the change watcher', async () => {
+      const loader = container.get<IContentLoader>(CONTENT_TYPES.IContentLoader);
+      let onChange: ((change: IContentChange) => void) | undefined;
+      vi.spyOn(loader, 'watchForChanges').mockImplementation((callback) => {
+        onChange = callback;
+      });
+      await contentManager.initialize('templates', 'knowledge.yaml');
+
+      const reload = vi
+        .spyOn(loader, 'loadKnowledgeBase')
+        .mockRejectedValueOnce(new Error('Unexpected end of YAML'));
+      onChange?.({
+        type: 'knowledge',
+        action: 'modified',
+        id: 'knowledge',
+        path: 'knowledge.yaml'
+      });
+      await vi.waitFor(() => expect(reload).toHaveBeenCalled());
+      // Let the rejection settle; an uncaught one fails the run
+      await new Promise((resolve) => setTimeout(resolve, 0));
+
+      expect(await contentManager.searchKnowledge({ text: 'testing' })).not.toEqual([]);
+    });
+
+    it('should compile partials once per version and recompile them when they change', async () => {
+      const renderer = container.get<ITemplateRenderer>(CONTENT_TYPES.ITemplateRenderer);
+      const approvalYaml = `
+id: approval
+name: Approval
+category: partial
+version: 1.0.0
+description: Approval line
+variables: []
+content: |
+  Approved by {{approver}}
+`;
+      await fileSystem.writeFile('templates/approval.yaml', approvalYaml);
+      const memoYaml = `
+id: memo
+name: Memo
+category: document
+version: 1.0.0
+description: Uses the approval partial
+variables: []
+content: |
+  {{> approval approver="QA"}}
+`;
+      await fileSystem.writeFile('templates/memo.yaml', memoYaml);
+      await contentManager.initialize('templates', 'knowledge.yaml');
+      const compileSpy = vi.spyOn(renderer, 'compilePartial');
+
+      await contentManager.renderTemplate('memo', {});
+      expect(await contentManager.renderTemplate('memo', {})).toContain('Approved by QA');
+      expect(compileSpy).toHaveBeenCalledTimes(1);
+
+      const path = 'templates/approval.yaml';
+      const source = await fileSystem.readFile(path);
+      await fileSystem.writeFile(path, source.replace('Approved by', 'Signed off by'));
+      await (contentManager as ContentManager).handleContentChange({
+        type: 'template',
+        action: 'modified',
+        id: 'approval',
+        path
+      });
+
+      expect(await contentManager.renderTemplate('memo', {})).toContain('Signed off by QA');
+      expect(compileSpy).toHaveBeenCalledTimes(2);
     });
   });
 
@@ -326,6 +775,96 @@ describe('Content Management Integration', () => {
       expect(results[0].id).toBe('test-pyramid');
     });
 
+    it('should rank text matches with scores and highlights', async () => {
+      const results = await contentManager.searchKnowledgeRanked({ text: 'unit testing' });
+
+      expect(results.map((r) => r.entry.id)).toEqual(['test-first', 'test-pyramid']);
+      expect(results[0].score).toBeGreaterThan(results[1].score);
+      expect(results[0].highlights.title).toBe('**Test** First Development');
+      expect(results[1].highlights.snippet).toContain('Many **unit** **tests** (base)');
+
+      const filtered = await contentManager.searchKnowledgeRanked({
+        text: 'test',
+        category: 'guideline'
+      });
+      expect(filtered.map((r) => r.entry.id)).toEqual(['test-pyramid']);
+    });
+
+    it('should evaluate the query language with fuzzy matching', async () => {
+      const misspelled = await contentManager.searchKnowledge({ text: 'pyramd' });
+      expect(misspelled.map((e) => e.id)).toEqual(['test-pyramid']);
+      expect(await contentManager.searchKnowledge({ text: 'pyramd', fuzzy: false })).toEqual([]);
+
+      const excluded = await contentManager.searchKnowledge({ text: 'tests -"integration tests"' });
+      expect(excluded.map((e) => e.id)).toEqual(['test-first']);
+
+      const byField = await contentManager.searchKnowledge({
+        text: 'tag:tdd OR tag:architecture phase:testing'
+      });
+      expect(byField.map((e) => e.id)).toEqual(['test-first', 'test-pyramid']);
+    });
+
+    it('should find entries by meaning when no keyword matches', async () => {
+      const results = await contentManager.semanticSearch('designing code with confidence', 1);
+
+      expect(results).toHaveLength(1);
+      expect(results[0].entry.id).toBe('test-first');
+      expect(results[0].keywordScore).toBe(0);
+      expect(results[0].semanticScore).toBeGreaterThan(0);
+
+      const stored = JSON.parse(await fileSystem.readFile('knowledge.vectors.json'));
+      expect(stored.provider).toMatch(/^hashed-tfidf-512-/);
+      expect(Object.keys(stored.entries)).toEqual(['test-first', 'test-pyramid']);
+    });
+
+    it('should keep semantic search working when the vectors cannot be saved', async () => {
+      await fileSystem.deleteFile('knowledge.vectors.json');
+      vi.spyOn(fileSystem, 'writeFile').mockRejectedValue(new Error('Read-only file system'));
+      await contentManager.initialize('templates', 'knowledge.yaml');
+
+      const results = await contentManager.semanticSearch('designing code with confidence', 1);
+      expect(results[0].entry.id).toBe('test-first');
+      expect(results[0].semanticScore).toBeGreaterThan(0);
+    });
+
+    it('should rank keyword matches first in hybrid search', async () => {
+      const results = await contentManager.semanticSearch('pyramid');
+
+      expect(results[0].entry.id).toBe('test-pyramid');
+      expect(results[0].keywordScore).toBeGreaterThan(0);
+      expect(results[0].highlights.title).toBe('Test **Pyramid**');
+    });
+
+    it('should page and sort knowledge results with facets', async () => {
+      const page = await contentManager.searchKnowledgePage({
+        text: 'tests',
+        sort: 'updated',
+        limit: 1
+      });
+      expect(page.items.map((r) => r.entry.id)).toEqual(['test-pyramid']);
+      expect(page.total).toBe(2);
+      expect(page.facets).toEqual({
+        category: { 'best-practice': 1, guideline: 1 },
+        phase: { testing: 2 },
+        tag: { 'unit-test': 1, tdd: 1, testing: 1, architecture: 1 }
+      });
+
+      const next = await contentManager.searchKnowledge({
+        text: 'tests',
+        sort: 'updated',
+        limit: 1,
+        cursor: page.nextCursor
+      });
+      expect(next.map((e) => e.id)).toEqual(['test-first']);
+
+      const byTitle = await contentManager.searchKnowledge({
+        sort: 'title',
+        order: 'desc',
+        offset: 1
+      });
+      expect(byTitle.map((e) => e.id)).toEqual(['test-first']);
+    });
+
     it('should search knowledge entries by category', async () => {
       const results = await contentManager.searchKnowledge({
         category: 'best-practice'
@@ -369,11 +908,11 @@ describe('Content Management Integration', () => {
       const template = await contentManager.getTemplate('base-template');
       expect(template).toBeDefined();
 
-      const validation = contentManager.validateTemplate(template!);
+      const validation = await contentManager.validateTemplate(template!);
       expect(validation.valid).toBe(true);
     });
 
-    it('should detect invalid templates', () => {
+    it('should detect invalid templates', async () => {
       const invalidTemplate: ISDLCTemplate = {
         id: '',
         name: 'Invalid',
@@ -382,10 +921,134 @@ describe('Content Management Integration', () => {
         content: ''
       };
 
-      const validation = contentManager.validateTemplate(invalidTemplate);
+      const validation = await contentManager.validateTemplate(invalidTemplate);
       expect(validation.valid).toBe(false);
       expect(validation.errors.length).toBeGreaterThan(0);
     });
+
+    it('should report variable merge conflicts from inheritance', async () => {
+      const signedBaseYaml = `
+id: signed-base
+name: Signed Base
+category: document
+version: 1.0.0
+description: Base with a final signer
+variables:
+  - name: signer
+    type: string
+    required: true
+    description: Signer
+    merge: final
+content: |
+  Signed by {{signer}}
+`;
+      await fileSystem.writeFile('templates/signed-base.yaml', signedBaseYaml);
+      const signedChildYaml = `
+id: signed-child
+name: Signed Child
+category: document
+version: 1.0.0
+parent: signed-base
+description: Tries to redefine the signer
+variables:
+  - name: signer
+    type: string
+    required: false
+    description: Optional signer
+content: |
+  {{> parent}}
+`;
+      await fileSystem.writeFile('templates/signed-child.yaml', signedChildYaml);
+      await contentManager.initialize('templates', 'knowledge.yaml');
+
+      const template = await contentManager.getTemplate('signed-child');
+      expect(template?.variables?.find((v) => v.name === 'signer')?.required).toBe(true);
+
+      // The declared template, as the resolved one already keeps the final signer
+      const templates = await contentManager.getAllTemplates();
+      const declared = templates.find((t) => t.id === 'signed-child');
+      if (!declared) throw new Error('signed-child was not loaded');
+      const validation = await contentManager.validateTemplate(declared);
+      expect(validation.valid).toBe(false);
+      expect(validation.errors).toContainEqual({
+        path: 'variables.signer',
+        message:
+          "Variable 'signer' is final in 'signed-base' and cannot be redefined by 'signed-child'",
+        type: 'conflict'
+      });
+    });
+
+    it('should report merge conflicts from the variables of the validated template', async () => {
+      const lockedBaseYaml = `
+id: locked-base
+name: Locked Base
+category: document
+version: 1.0.0
+description: Base with a final reviewer
+variables:
+  - name: reviewer
+    type: string
+    required: true
+    description: Reviewer
+    merge: final
+content: |
+  Reviewed by {{reviewer}}
+`;
+      await fileSystem.writeFile('templates/locked-base.yaml', lockedBaseYaml);
+      const lockedChildYaml = `
+id: locked-child
+name: Locked Child
+category: document
+version: 1.0.0
+parent: locked-base
+description: Keeps the inherited reviewer
+variables: []
+content: |
+  {{> parent}}
+`;
+      await fileSystem.writeFile('templates/locked-child.yaml', lockedChildYaml);
+      await contentManager.initialize('templates', 'knowledge.yaml');
+
+      const optionalReviewer: ITemplateVariable = {
+        name: 'reviewer',
+        type: 'string',
+        required: false,
+        description: 'Optional reviewer'
+      };
+      const conflict = (templateId: string) => ({
+        path: 'variables.reviewer',
+        message: `Variable 'reviewer' is final in 'locked-base' and cannot be redefined by '${templateId}'`,
+        type: 'conflict'
+      });
+
+      // A loaded template is checked with the variables it is validated with
+      const loaded = (await contentManager.getAllTemplates()).find((t) => t.id === 'locked-child');
+      if (!loaded) throw new Error('locked-child was not loaded');
+      expect((await contentManager.validateTemplate(loaded)).valid).toBe(true);
+
+      const edited = await contentManager.validateTemplate({
+        ...loaded,
+        variables: [optionalReviewer]
+      });
+      expect(edited.valid).toBe(false);
+      expect(edited.errors).toContainEqual(conflict('locked-child'));
+
+      // A template that is not loaded is merged over its parent all the same
+      const draft: ISDLCTemplate = {
+        id: 'locked-draft',
+        name: 'Locked Draft',
+        category: 'document',
+        version: '1.0.0',
+        parent: 'locked-base',
+        description: 'Not loaded yet',
+        variables: [optionalReviewer],
+        content: '{{> parent}}'
+      };
+      const unloaded = await contentManager.validateTemplate(draft);
+      expect(unloaded.valid).toBe(false);
+      expect(unloaded.errors).toContainEqual(conflict('locked-draft'));
+      expect(await contentManager.getTemplate('locked-draft')).toBeUndefined();
+    });
   });
 
   describe('Complex Scenarios', () => {
@@ -489,5 +1152,58 @@ variables:
       expect(rendered).toContain('**Feature A**: Does something amazing');
       expect(rendered).toContain('### REQ-001');
     });
+
+    it('should include partials with parameters', async () => {
+      const signOffYaml = `
+id: sign-off
+name: Sign-off
+category: partial
+version: 1.0.0
+description: Approval block
+variables: []
+content: |
+  Approved by {{approver}} for {{title}}
+`;
+      await fileSystem.writeFile('templates/sign-off.yaml', signOffYaml);
+      const releaseNoteYaml = `
+id: release-note
+name: Release Note
+category: document
+version: 1.0.0
+description: Uses the sign-off partial
+variables:
+  - name: title
+    type: string
+    required: true
+    description: Title
+content: |
+  # {{title}}
+  {{> sign-off approver="QA Lead"}}
+`;
+      await fileSystem.writeFile('templates/release-note.yaml', releaseNoteYaml);
+      const brokenNoteYaml = `
+id: broken-note
+name: Broken Note
+category: document
+version: 1.0.0
+description: Includes a partial that does not exist
+variables: []
+content: |
+  {{> missing-block}}
+`;
+      await fileSystem.writeFile('templates/broken-note.yaml', brokenNoteYaml);
+      await contentManager.initialize('templates', 'knowledge.yaml');
+
+      const rendered = await contentManager.renderTemplate('release-note', { title: 'v2.0' });
+      expect(rendered).toContain('Approved by QA Lead for v2.0');
+
+      await expect(contentManager.renderTemplate('broken-note', {})).rejects.toThrow(
+        'Partial not found: missing-block'
+      );
+      const brokenNote = await contentManager.getTemplate('broken-note');
+      if (!brokenNote) throw new Error('broken-note was not loaded');
+      const validation = await contentManager.validateTemplate(brokenNote);
+      expect(validation.errors.map((e) => e.message)).toContain("Unknown partial 'missing-block'");
+    });
   });
 });
\ No newline at end of file
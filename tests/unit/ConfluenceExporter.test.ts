@@ -0,0 +1,47 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { ConfluenceExporter } from '../../src/implementations/ConfluenceExporter.js';
+
+const fixture = (name: string) =>
+  fileURLToPath(new URL(`../fixtures/export/${name}`, import.meta.url));
+
+// Set UPDATE_GOLDEN=1 to rewrite the expected output after an intended change
+const expectGolden = (actual: string, name: string) => {
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(fixture(name), actual);
+  }
+  expect(actual).toBe(readFileSync(fixture(name), 'utf8'));
+};
+
+describe('ConfluenceExporter', () => {
+  let exporter: ConfluenceExporter;
+
+  beforeEach(() => {
+    exporter = new ConfluenceExporter();
+  });
+
+  it('should match the golden storage format', () => {
+    const markdown = readFileSync(fixture('review.md'), 'utf8');
+    expectGolden(exporter.export(markdown), 'review.confluence.xml');
+  });
+
+  it('should number tasks across task lists', () => {
+    const output = exporter.export('- [ ] one\n\ntext\n\n- [x] two');
+
+    expect(output).toContain(
+      '<ac:task-id>1</ac:task-id>\n<ac:task-status>incomplete</ac:task-status>'
+    );
+    expect(output).toContain(
+      '<ac:task-id>2</ac:task-id>\n<ac:task-status>complete</ac:task-status>'
+    );
+  });
+
+  it('should keep code containing a CDATA terminator intact', () => {
+    expect(exporter.export('```\na]]>b\n```')).toContain('<![CDATA[a]]]]><![CDATA[>b]]>');
+  });
+
+  it('should drop raw HTML', () => {
+    expect(exporter.export('<script>alert(1)</script>\n\nSafe')).toBe('<p>Safe</p>\n');
+  });
+});
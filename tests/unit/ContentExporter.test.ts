@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ContentExporter } from '../../src/implementations/ContentExporter.js';
+import type { ILogger } from '@chasenocap/logger';
+import type { IContentManager } from '../../src/types/ContentTypes.js';
+
+// Mock logger
+const createMockLogger = (): ILogger => {
+  const logger: Partial<ILogger> = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+    child: () => createMockLogger()
+  };
+  return logger as ILogger;
+};
+
+describe('ContentExporter', () => {
+  let exporter: ContentExporter;
+  let contentManager: IContentManager;
+
+  const markdown = [
+    '# Project Plan',
+    '',
+    '## Scope & Goals',
+    '',
+    '| Item | Owner |',
+    '|------|-------|',
+    '| API | Ann |',
+    '',
+    '### Details',
+    '',
+    '## Scope & Goals',
+    '',
+    '# Appendix'
+  ].join('\n');
+
+  beforeEach(() => {
+    contentManager = {
+      renderTemplate: vi.fn().mockResolvedValue('# Rendered\n\nBody text')
+    } as unknown as IContentManager;
+    exporter = new ContentExporter(createMockLogger(), contentManager);
+  });
+
+  describe('toHtml', () => {
+    it('should add unique heading anchors', () => {
+      const { html, toc } = exporter.toHtml(markdown);
+
+      expect(toc.map((entry) => entry.anchor)).toEqual([
+        'project-plan',
+        'scope-goals',
+        'details',
+        'scope-goals-1',
+        'appendix'
+      ]);
+      expect(html).toContain('<h2 id="scope-goals">Scope &amp; Goals</h2>');
+      expect(html).toContain('<table>');
+    });
+
+    it('should generate a nested table of contents', () => {
+      const { html, toc } = exporter.toHtml(markdown, { tocDepth: 2 });
+
+      expect(toc.map((entry) => entry.text)).toEqual([
+        'Project Plan',
+        'Scope & Goals',
+        'Scope & Goals',
+        'Appendix'
+      ]);
+      expect(html).toContain(
+        '<ul><li><a href="#project-plan">Project Plan</a>' +
+          '<ul><li><a href="#scope-goals">Scope &amp; Goals</a></li>' +
+          '<li><a href="#scope-goals-1">Scope &amp; Goals</a></li></ul></li>' +
+          '<li><a href="#appendix">Appendix</a></li></ul>'
+      );
+    });
+
+    it('should omit the table of contents when disabled', () => {
+      expect(exporter.toHtml(markdown, { toc: false }).html).not.toContain('<nav');
+    });
+
+    it('should wrap the output in a themeable document', () => {
+      const { html, title } = exporter.toHtml(markdown, {
+        themeVariables: { '--content-accent': '#b60205' }
+      });
+
+      expect(title).toBe('Project Plan');
+      expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+      expect(html).toContain('<title>Project Plan</title>');
+      expect(html).toContain('--content-accent: #b60205;');
+      expect(exporter.toHtml(markdown, { css: 'body { color: red; }' }).html).toContain(
+        '<style>\nbody { color: red; }\n</style>'
+      );
+    });
+
+    it('should mark print page breaks', () => {
+      const { html } = exporter.toHtml(`${markdown}\n\n<!-- pagebreak -->\n\nTail`);
+
+      expect(html).toContain('<h1 id="project-plan">Project Plan</h1>');
+      expect(html).toContain('<h1 id="appendix" class="page-break">Appendix</h1>');
+      expect(html).toContain('<div class="page-break"></div>');
+      expect(exporter.toHtml(markdown, { pageBreakLevel: 0 }).html).not.toContain(
+        'class="page-break"'
+      );
+    });
+  });
+
+  describe('exportTemplate', () => {
+    it('should render the template before exporting it', async () => {
+      const result = await exporter.exportTemplate('prd', { title: 'PRD' }, { title: 'Custom' });
+
+      expect(contentManager.renderTemplate).toHaveBeenCalledWith('prd', { title: 'PRD' });
+      expect(result.title).toBe('Custom');
+      expect(result.html).toContain('<h1 id="rendered">Rendered</h1>');
+    });
+  });
+});
@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { ContentValidator } from '../../src/implementations/ContentValidator.js';
+import { TemplateFilterRegistry } from '../../src/implementations/TemplateFilterRegistry.js';
 import type { ILogger } from '@chasenocap/logger';
-import type { ISDLCTemplate, IKnowledgeEntry, ITemplateVariable } from '../../src/types/ContentTypes.js';
+import type {
+  ISDLCTemplate,
+  IKnowledgeEntry,
+  ITemplateVariable
+} from '../../src/types/ContentTypes.js';
 
 // Mock logger
 const createMockLogger = (): ILogger => ({
@@ -139,6 +144,224 @@ describe('ContentValidator', () => {
       expect(result.valid).toBe(false);
       expect(result.errors.some(e => e.message.includes('Unmatched conditional'))).toBe(true);
     });
+
+    it('should accept else, else if and unless blocks', () => {
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: '{{#if a}}A{{else if b}}B{{else}}C{{/if}}{{#unless d}}D{{/unless}}'
+      };
+
+      const result = validator.validateTemplate(template);
+      expect(result.valid).toBe(true);
+    });
+
+    it('should report invalid condition expressions as syntax errors', () => {
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: 'Intro\n{{#if priority = "high"}}Urgent{{/if}}'
+      };
+
+      const result = validator.validateTemplate(template);
+      expect(result.valid).toBe(false);
+      const error = result.errors.find((e) => e.type === 'syntax');
+      expect(error?.message).toContain('Invalid expression');
+      expect(error?.path).toContain('line 2');
+    });
+
+    it('should detect unknown filters', () => {
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: '{{title | upper}} {{date | fancyDate}}'
+      };
+
+      const result = validator.validateTemplate(template);
+      expect(result.valid).toBe(false);
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0].message).toContain("Unknown filter 'fancyDate'");
+    });
+
+    it('should report includes of unknown partials', () => {
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: '{{> parent}}\n{{> document-control}}\n{{> signatures}}'
+      };
+
+      expect(validator.validateTemplate(template).valid).toBe(true);
+
+      const result = validator.validateTemplate(template, new Set(['document-control']));
+      expect(result.errors).toHaveLength(1);
+      expect(result.errors[0]).toMatchObject({
+        path: 'line 3, column 1',
+        message: "Unknown partial 'signatures'"
+      });
+    });
+
+    it('should accept partial templates but not self-includes', () => {
+      const partial: ISDLCTemplate = {
+        id: 'signatures',
+        name: 'Signatures',
+        category: 'partial',
+        version: '1.0.0',
+        content: '{{role}}: ____\n{{> signatures}}'
+      };
+
+      const result = validator.validateTemplate(partial, new Set(['signatures']));
+      expect(result.errors.map((e) => e.message)).toEqual(["Partial 'signatures' includes itself"]);
+    });
+
+    it('should accept filters registered in the shared registry', () => {
+      const filters = new TemplateFilterRegistry();
+      filters.register('fancyDate', (value) => value);
+      const customValidator = new ContentValidator(mockLogger, filters);
+
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: '{{date | fancyDate}}'
+      };
+
+      expect(customValidator.validateTemplate(template).valid).toBe(true);
+    });
+
+    it('should report custom validators that are not registered', () => {
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: '{{ticket}}',
+        variables: [
+          {
+            name: 'ticket',
+            type: 'string',
+            required: true,
+            description: 'Ticket',
+            validation: { custom: 'jira-key' }
+          }
+        ]
+      };
+
+      const result = validator.validateTemplate(template);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toEqual({
+        path: 'variables[0].validation.custom',
+        message: "Unknown custom validator 'jira-key'",
+        type: 'invalid'
+      });
+
+      validator.registerValidator('jira-key', () => true);
+      expect(validator.validateTemplate(template).valid).toBe(true);
+    });
+
+    it('should warn about deprecated templates and variables', () => {
+      const template: ISDLCTemplate = {
+        id: 'srs',
+        name: 'SRS',
+        category: 'document',
+        version: '1.0.0',
+        description: 'Old requirements template',
+        tags: ['requirements'],
+        content: '{{owner}}',
+        deprecated: { since: '2.0.0', replacedBy: 'requirements-spec' },
+        variables: [
+          {
+            name: 'owner',
+            type: 'string',
+            required: false,
+            description: 'Owner',
+            deprecated: { since: '1.5.0', message: 'Use approvers.' }
+          }
+        ]
+      };
+
+      const result = validator.validateTemplate(template);
+      expect(result.valid).toBe(true);
+      expect(result.warnings).toEqual([
+        {
+          path: 'deprecated',
+          message: "Template 'srs' is deprecated since 2.0.0; use 'requirements-spec' instead",
+          type: 'deprecated'
+        },
+        {
+          path: 'variables[0].deprecated',
+          message: "Variable 'owner' is deprecated since 1.5.0. Use approvers.",
+          type: 'deprecated'
+        }
+      ]);
+    });
+
+    it('should reject unknown variable merge strategies', () => {
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: '{{owner}}',
+        variables: [
+          {
+            name: 'owner',
+            type: 'string',
+            required: true,
+            description: 'Owner',
+            merge: 'replace' as 'override'
+          }
+        ]
+      };
+
+      const result = validator.validateTemplate(template);
+      expect(result.valid).toBe(false);
+      expect(result.errors[0]).toMatchObject({
+        path: 'variables[0].merge',
+        type: 'invalid'
+      });
+    });
+
+    it('should report malformed version ranges in parent and mixin references', () => {
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: '{{> parent}}',
+        parent: 'document-base@1.x',
+        mixins: ['hipaa-addendum@latest', 'audit@^one']
+      };
+
+      const result = validator.validateTemplate(template);
+      expect(result.errors).toEqual([
+        { path: 'mixins[1]', message: "Invalid version range '^one'", type: 'invalid' }
+      ]);
+    });
+
+    it('should detect misplaced else tags', () => {
+      const template: ISDLCTemplate = {
+        id: 'test',
+        name: 'Test',
+        category: 'document',
+        version: '1.0.0',
+        content: 'Intro {{else}} outro'
+      };
+
+      const result = validator.validateTemplate(template);
+      expect(result.valid).toBe(false);
+      expect(result.errors.some((e) => e.type === 'syntax' && e.message.includes('{{else}}'))).toBe(
+        true
+      );
+    });
   });
 
   describe('validateKnowledgeEntry', () => {
@@ -312,6 +535,29 @@ describe('ContentValidator', () => {
       expect(result.warnings.some(w => w.path === 'extra' && w.type === 'unused')).toBe(true);
     });
 
+    it('should run asynchronous custom validators', async () => {
+      validator.registerValidator('available', async (value) =>
+        value === 'admin' ? `Username '${value}' is reserved` : true
+      );
+      const customVars: ITemplateVariable[] = [
+        {
+          name: 'username',
+          type: 'string',
+          required: true,
+          description: 'Username',
+          validation: { custom: 'available' }
+        }
+      ];
+
+      expect((await validator.validateVariablesAsync(customVars, { username: 'jane' })).valid).toBe(
+        true
+      );
+
+      const result = await validator.validateVariablesAsync(customVars, { username: 'admin' });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toBe("Username 'admin' is reserved");
+    });
+
     it('should handle date validation', () => {
       const dateVars: ITemplateVariable[] = [{
         name: 'date',
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { readFileSync, writeFileSync } from 'node:fs';
+import { fileURLToPath } from 'node:url';
+import { DocxExporter } from '../../src/implementations/DocxExporter.js';
+
+const fixture = (name: string) =>
+  fileURLToPath(new URL(`../fixtures/export/${name}`, import.meta.url));
+
+// Set UPDATE_GOLDEN=1 to rewrite the expected output after an intended change
+const expectGolden = (actual: string, name: string) => {
+  if (process.env.UPDATE_GOLDEN) {
+    writeFileSync(fixture(name), actual);
+  }
+  expect(actual).toBe(readFileSync(fixture(name), 'utf8'));
+};
+
+describe('DocxExporter', () => {
+  let exporter: DocxExporter;
+  const markdown = readFileSync(fixture('review.md'), 'utf8');
+
+  beforeEach(() => {
+    exporter = new DocxExporter();
+  });
+
+  it('should match the golden document XML', () => {
+    expectGolden(exporter.renderDocument(markdown), 'review.document.xml');
+  });
+
+  it('should package the document as a .docx archive', () => {
+    const archive = Buffer.from(exporter.export(markdown, { title: 'Code Review', author: 'Ann' }));
+
+    // Local file header signature
+    expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+    for (const part of [
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'docProps/core.xml',
+      'word/document.xml',
+      'word/styles.xml',
+      'word/_rels/document.xml.rels'
+    ]) {
+      expect(archive.includes(part)).toBe(true);
+    }
+
+    // Entries are stored uncompressed, so the parts appear verbatim
+    expect(archive.includes(exporter.renderDocument(markdown))).toBe(true);
+    expect(archive.includes('<dc:title>Code Review</dc:title>')).toBe(true);
+    expect(
+      archive.includes('Target="https://example.com/style?a=1&amp;b=2" TargetMode="External"')
+    ).toBe(true);
+  });
+
+  it('should produce identical archives for identical input', () => {
+    expect(
+      Buffer.from(exporter.export(markdown)).equals(Buffer.from(exporter.export(markdown)))
+    ).toBe(true);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ExpressionParser,
+  ExpressionSyntaxError
+} from '../../src/implementations/ExpressionParser.js';
+import { ExpressionEvaluator } from '../../src/implementations/ExpressionEvaluator.js';
+
+describe('ExpressionParser', () => {
+  let parser: ExpressionParser;
+  let evaluator: ExpressionEvaluator;
+
+  const evaluate = (source: string, variables: Record<string, unknown> = {}) =>
+    evaluator.evaluate(parser.parse(source), (segments) =>
+      segments.reduce<unknown>(
+        (value, key) =>
+          value !== null && typeof value === 'object'
+            ? (value as Record<string, unknown>)[key]
+            : undefined,
+        variables
+      )
+    );
+
+  beforeEach(() => {
+    parser = new ExpressionParser();
+    evaluator = new ExpressionEvaluator();
+  });
+
+  describe('parse', () => {
+    it('should parse literals', () => {
+      expect(parser.parse('"high"')).toEqual({ type: 'literal', value: 'high' });
+      expect(parser.parse("'it\\'s'")).toEqual({ type: 'literal', value: "it's" });
+      expect(parser.parse('42.5')).toEqual({ type: 'literal', value: 42.5 });
+      expect(parser.parse('true')).toEqual({ type: 'literal', value: true });
+      expect(parser.parse('null')).toEqual({ type: 'literal', value: null });
+    });
+
+    it('should parse dotted and bracketed paths', () => {
+      expect(parser.parse('project.owner["name"]')).toEqual({
+        type: 'path',
+        segments: ['project', 'owner', 'name']
+      });
+      expect(parser.parse('items[0].id')).toEqual({
+        type: 'path',
+        segments: ['items', '0', 'id']
+      });
+    });
+
+    it('should give && precedence over ||', () => {
+      const node = parser.parse('a || b && c');
+
+      expect(node).toMatchObject({
+        type: 'logical',
+        operator: '||',
+        right: { type: 'logical', operator: '&&' }
+      });
+    });
+
+    it('should throw syntax errors with offsets', () => {
+      expect(() => parser.parse('a ==')).toThrow(ExpressionSyntaxError);
+      expect(() => parser.parse('(a')).toThrow("Expected ')'");
+
+      try {
+        parser.parse('a # b');
+      } catch (error) {
+        expect((error as ExpressionSyntaxError).offset).toBe(2);
+      }
+    });
+
+    it('should reject empty expressions', () => {
+      expect(() => parser.parse('   ')).toThrow('Expected an expression');
+    });
+  });
+
+  describe('evaluate', () => {
+    it('should compare values', () => {
+      expect(evaluate('priority == "high"', { priority: 'high' })).toBe(true);
+      expect(evaluate('priority != "high"', { priority: 'low' })).toBe(true);
+      expect(evaluate('count >= 3', { count: 3 })).toBe(true);
+      expect(evaluate('count < 3', { count: 3 })).toBe(false);
+      expect(evaluate('-1 < 0')).toBe(true);
+    });
+
+    it('should not order values of different types', () => {
+      expect(evaluate('count > 1', { count: '5' })).toBe(false);
+      expect(evaluate('missing < 1')).toBe(false);
+    });
+
+    it('should combine conditions with logical operators', () => {
+      const variables = { risks: ['r1'], showRisks: true };
+
+      expect(evaluate('risks.length > 0 && showRisks', variables)).toBe(true);
+      expect(evaluate('!showRisks || risks.length == 0', variables)).toBe(false);
+      expect(evaluate('!(a && b)', { a: true, b: false })).toBe(true);
+    });
+
+    it('should use template truthiness rules', () => {
+      expect(evaluate('!items', { items: [] })).toBe(true);
+      expect(evaluate('!name', { name: '' })).toBe(true);
+      expect(evaluate('!count', { count: 0 })).toBe(true);
+    });
+  });
+});
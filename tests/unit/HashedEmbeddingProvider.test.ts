@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { HashedEmbeddingProvider } from '../../src/implementations/HashedEmbeddingProvider.js';
+
+const dot = (a: number[] = [], b: number[] = []) =>
+  a.reduce((sum, value, i) => sum + value * (b[i] ?? 0), 0);
+
+describe('HashedEmbeddingProvider', () => {
+  const provider = new HashedEmbeddingProvider();
+
+  it('should embed texts as deterministic unit vectors', async () => {
+    const [first, again] = await provider.embed([
+      'Gathering requirements',
+      'Gathering requirements'
+    ]);
+
+    expect(provider.id).toBe('hashed-tfidf-512');
+    expect(first).toHaveLength(512);
+    expect(dot(first, first)).toBeCloseTo(1);
+    expect(again).toEqual(first);
+  });
+
+  it('should place texts with shared or related words closer together', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'how do I gather requirements',
+      'Interview stakeholders to elicit requirements and prerequisites',
+      'Keep deployments small and reversible'
+    ]);
+
+    expect(dot(query, related)).toBeGreaterThan(0.2);
+    expect(dot(query, related)).toBeGreaterThan(dot(query, unrelated) + 0.2);
+  });
+
+  it('should return a zero vector for text without indexable words', async () => {
+    const [empty] = await new HashedEmbeddingProvider(16).embed(['the and of']);
+
+    expect(empty).toEqual(new Array(16).fill(0));
+  });
+
+  it('should weight words by how rare they are in the fitted corpus', async () => {
+    const fitted = new HashedEmbeddingProvider();
+    fitted.fit([
+      'review the security checklist',
+      'review the test checklist',
+      'review the release checklist'
+    ]);
+    const [query, security, test] = await fitted.embed([
+      'review security',
+      'review the security checklist',
+      'review the test checklist'
+    ]);
+    const [plainQuery, plainSecurity, plainTest] = await provider.embed([
+      'review security',
+      'review the security checklist',
+      'review the test checklist'
+    ]);
+
+    // "review" is in every entry, so only "security" tells them apart
+    const gap = dot(query, security) - dot(query, test);
+    expect(gap).toBeGreaterThan(dot(plainQuery, plainSecurity) - dot(plainQuery, plainTest));
+  });
+
+  it('should name the corpus it was fitted to in its id', () => {
+    const fitted = new HashedEmbeddingProvider(64);
+    fitted.fit(['one entry']);
+    const first = fitted.id;
+    fitted.fit(['one entry']);
+    expect(fitted.id).toBe(first);
+    fitted.fit(['another entry']);
+
+    expect(first).toMatch(/^hashed-tfidf-64-\w+$/);
+    expect(fitted.id).not.toBe(first);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { KnowledgeQueryParser } from '../../src/implementations/KnowledgeQueryParser.js';
+
+describe('KnowledgeQueryParser', () => {
+  const parser = new KnowledgeQueryParser();
+
+  it('should parse adjacent words as a conjunction', () => {
+    expect(parser.parse('threat modeling')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'term', value: 'threat' },
+        { type: 'term', value: 'modeling' }
+      ]
+    });
+    expect(parser.parse('  security ')).toEqual({ type: 'term', value: 'security' });
+  });
+
+  it('should parse quoted phrases, exclusions and field filters', () => {
+    expect(parser.parse('"use cases" -legacy tag:security phase:requirements')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'phrase', value: 'use cases' },
+        { type: 'not', operand: { type: 'term', value: 'legacy' } },
+        { type: 'field', field: 'tag', value: 'security' },
+        { type: 'field', field: 'phase', value: 'requirements' }
+      ]
+    });
+    expect(parser.parse('-"big bang" Category:"anti-pattern"')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'not', operand: { type: 'phrase', value: 'big bang' } },
+        { type: 'field', field: 'category', value: 'anti-pattern' }
+      ]
+    });
+  });
+
+  it('should let OR bind looser than adjacent words', () => {
+    expect(parser.parse('unit tests OR tag:tdd')).toEqual({
+      type: 'or',
+      operands: [
+        {
+          type: 'and',
+          operands: [
+            { type: 'term', value: 'unit' },
+            { type: 'term', value: 'tests' }
+          ]
+        },
+        { type: 'field', field: 'tag', value: 'tdd' }
+      ]
+    });
+  });
+
+  it('should treat lowercase or, unknown fields and lone dashes as text', () => {
+    expect(parser.parse('mocks or stubs')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'term', value: 'mocks' },
+        { type: 'term', value: 'stubs' }
+      ]
+    });
+    expect(parser.parse('author:alice')).toEqual({ type: 'term', value: 'author:alice' });
+    expect(parser.parse('ci - cd')).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'term', value: 'ci' },
+        { type: 'term', value: 'cd' }
+      ]
+    });
+  });
+
+  it('should recover from malformed queries', () => {
+    expect(parser.parse('"unclosed phrase')).toEqual({ type: 'phrase', value: 'unclosed phrase' });
+    expect(parser.parse('OR security OR')).toEqual({ type: 'term', value: 'security' });
+    expect(parser.parse('tag: "" -')).toBeUndefined();
+    expect(parser.parse('the "of a"')).toBeUndefined();
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  KnowledgeSearchIndex,
+  type IKnowledgeSearchOptions
+} from '../../src/implementations/KnowledgeSearchIndex.js';
+import { KnowledgeQueryParser } from '../../src/implementations/KnowledgeQueryParser.js';
+import type { IKnowledgeEntry } from '../../src/types/ContentTypes.js';
+
+const entry = (
+  id: string,
+  title: string,
+  content: string,
+  tags: string[] = []
+): IKnowledgeEntry => ({ id, category: 'guideline', title, content, tags });
+
+describe('KnowledgeSearchIndex', () => {
+  let index: KnowledgeSearchIndex;
+  const parser = new KnowledgeQueryParser();
+
+  const search = (text: string, options?: IKnowledgeSearchOptions) => {
+    const query = parser.parse(text);
+    return query ? index.search(query, options) : [];
+  };
+  const ids = (text: string, options?: IKnowledgeSearchOptions) =>
+    search(text, options).map((result) => result.id);
+
+  const entries = [
+    entry('attestation', 'Release Attestation', 'Sign an attestation for every build artifact.'),
+    entry(
+      'review',
+      'Code Review Checklist',
+      'Reviewers check naming, error handling and that new code has tests.',
+      ['review']
+    ),
+    entry('tdd', 'Test First Development', 'Write a failing test before the implementation.', [
+      'testing',
+      'tdd'
+    ]),
+    entry('pyramid', 'Pyramid of Automated Checks', 'Keep most tests fast and isolated.', [
+      'testing'
+    ])
+  ];
+
+  beforeEach(() => {
+    index = new KnowledgeSearchIndex();
+    index.build(entries);
+  });
+
+  it('should match whole stemmed words only', () => {
+    const matched = ids('test');
+
+    expect(matched).not.toContain('attestation');
+    expect(matched).toEqual(['tdd', 'pyramid', 'review']);
+  });
+
+  it('should rank title matches above tag and content matches', () => {
+    const results = search('testing');
+    const [tdd = 0, pyramid = 0, review = 0] = results.map((result) => result.score);
+
+    expect(results.map((result) => result.id)).toEqual(['tdd', 'pyramid', 'review']);
+    expect(tdd).toBeGreaterThan(pyramid);
+    expect(pyramid).toBeGreaterThan(review);
+    expect(results[0]?.matchedTerms).toEqual(['test']);
+  });
+
+  it('should score rarer terms higher and combine several terms', () => {
+    const results = search('review tests');
+
+    expect(results[0]?.id).toBe('review');
+    expect(results[0]?.matchedTerms).toEqual(['review', 'test']);
+  });
+
+  it('should ignore stop words and unknown terms', () => {
+    expect(search('the and of')).toEqual([]);
+    expect(search('kubernetes')).toEqual([]);
+  });
+
+  it('should require every word', () => {
+    expect(ids('review tests')).toEqual(['review']);
+    expect(ids('failing isolated')).toEqual([]);
+  });
+
+  it('should match misspelled words by edit distance', () => {
+    const [exact] = search('attestation');
+    const [misspelled] = search('atestaiton');
+
+    expect(misspelled?.id).toBe('attestation');
+    expect(misspelled?.matchedTerms).toEqual(['attest']);
+    expect(misspelled?.score).toBeLessThan(exact?.score ?? 0);
+  });
+
+  it('should only match exact words when fuzzy matching is off or the word is short', () => {
+    expect(ids('atestaiton', { fuzzy: false })).toEqual([]);
+    expect(ids('tdx')).toEqual([]);
+  });
+
+  it('should match quoted phrases as consecutive words', () => {
+    expect(ids('"failing test"')).toEqual(['tdd']);
+    expect(ids('"test failing"')).toEqual([]);
+  });
+
+  it('should leave out entries with excluded words', () => {
+    expect(ids('tests -isolated')).toEqual(['tdd', 'review']);
+    expect(ids('tests -"code review"')).toEqual(['tdd', 'pyramid']);
+  });
+
+  it('should filter on tags, phase and category without scoring them', () => {
+    const tagged = search('tag:Testing');
+
+    expect(tagged.map((result) => result.id)).toEqual(['tdd', 'pyramid']);
+    expect(tagged.every((result) => result.score === 0)).toBe(true);
+    expect(ids('tests tag:review')).toEqual(['review']);
+    expect(ids('category:guideline -tag:testing')).toEqual(['attestation', 'review']);
+    expect(ids('phase:testing')).toEqual([]);
+  });
+
+  it('should match any alternative separated by OR', () => {
+    expect(ids('attestation OR pyramid')).toEqual(['attestation', 'pyramid']);
+    expect(ids('review checklist OR tag:tdd')).toEqual(['review', 'tdd']);
+  });
+
+  it('should highlight matches in the title and a content snippet', () => {
+    const long = entry(
+      'long',
+      'Testing Strategy',
+      `${'Background material. '.repeat(6)}Integration tests run against\nreal services. ${'More detail follows here. '.repeat(8)}`
+    );
+
+    const highlights = index.highlight(long, ['test']);
+    expect(highlights.title).toBe('**Testing** Strategy');
+    expect(highlights.snippet).toMatch(
+      /^….*Integration \*\*tests\*\* run against real services\..*…$/
+    );
+    expect(highlights.snippet.length).toBeLessThan(180);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { KnowledgeVectorIndex } from '../../src/implementations/KnowledgeVectorIndex.js';
+import type { IEmbeddingProvider, IKnowledgeEntry } from '../../src/types/ContentTypes.js';
+
+const entry = (id: string, title: string, content = ''): IKnowledgeEntry => ({
+  id,
+  category: 'guideline',
+  title,
+  content,
+  tags: []
+});
+
+// One dimension per keyword, and a record of every text embedded
+class KeywordProvider implements IEmbeddingProvider {
+  readonly dimensions = 3;
+  embedded: string[] = [];
+
+  constructor(readonly id = 'keywords') {}
+
+  async embed(texts: string[]): Promise<number[][]> {
+    this.embedded.push(...texts);
+    return texts.map((text) =>
+      ['requirements', 'testing', 'security'].map((word) => (text.includes(word) ? 1 : 0))
+    );
+  }
+}
+
+describe('KnowledgeVectorIndex', () => {
+  let provider: KeywordProvider;
+  let index: KnowledgeVectorIndex;
+
+  const entries = [
+    entry('elicitation', 'Stakeholder interviews', 'Ask about requirements'),
+    entry('pyramid', 'Test pyramid', 'Mostly unit testing'),
+    entry('threats', 'Threat modeling', 'security and requirements')
+  ];
+
+  beforeEach(async () => {
+    provider = new KeywordProvider();
+    index = new KnowledgeVectorIndex();
+    await index.build(entries, provider);
+  });
+
+  it('should rank entries by cosine similarity and leave out unrelated ones', () => {
+    const results = index.search([1, 0, 0]);
+
+    expect(results.map((result) => result.id)).toEqual(['elicitation', 'threats']);
+    expect(results[0]?.score).toBeCloseTo(1);
+    expect(results[1]?.score).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  it('should reuse stored vectors and embed only new and edited entries', async () => {
+    const stored = index.toJSON();
+    const rebuilt = new KnowledgeVectorIndex();
+    provider.embedded = [];
+
+    expect(await rebuilt.build(entries, provider, stored)).toBe(false);
+    expect(provider.embedded).toEqual([]);
+
+    const edited = [
+      entry('elicitation', 'Stakeholder interviews', 'Ask about requirements'),
+      entry('pyramid', 'Test pyramid', 'security testing')
+    ];
+    expect(await rebuilt.build(edited, provider, stored)).toBe(true);
+    expect(provider.embedded).toEqual(['Test pyramid\n\nsecurity testing']);
+    expect(rebuilt.size).toBe(2);
+    expect(rebuilt.toJSON().entries.threats).toBeUndefined();
+  });
+
+  it('should embed everything again when the provider changes', async () => {
+    const other = new KeywordProvider('other-keywords');
+
+    expect(await new KnowledgeVectorIndex().build(entries, other, index.toJSON())).toBe(true);
+    expect(other.embedded).toHaveLength(3);
+  });
+
+  it('should fit the provider to every entry before embedding', async () => {
+    const corpora: string[][] = [];
+    const fitting = Object.assign(new KeywordProvider('fitting'), {
+      fit: (corpus: string[]) => corpora.push(corpus)
+    });
+
+    await new KnowledgeVectorIndex().build(entries, fitting);
+
+    expect(corpora).toEqual([entries.map((e) => `${e.title}\n\n${e.content}`)]);
+  });
+});
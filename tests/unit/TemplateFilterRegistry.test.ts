@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  TemplateFilterRegistry,
+  formatDate
+} from '../../src/implementations/TemplateFilterRegistry.js';
+
+describe('TemplateFilterRegistry', () => {
+  let registry: TemplateFilterRegistry;
+
+  const apply = (name: string, value: unknown, ...args: unknown[]) => {
+    const filter = registry.get(name);
+    if (!filter) {
+      throw new Error(`Unknown filter '${name}'`);
+    }
+    return filter(value, ...args);
+  };
+
+  beforeEach(() => {
+    registry = new TemplateFilterRegistry();
+  });
+
+  describe('registration', () => {
+    it('should include the built-in filters', () => {
+      expect(registry.names()).toEqual(
+        expect.arrayContaining([
+          'format',
+          'upper',
+          'lower',
+          'title',
+          'default',
+          'join',
+          'truncate',
+          'number',
+          'escapeMarkdown',
+          'slugify'
+        ])
+      );
+    });
+
+    it('should register and replace filters', () => {
+      registry.register('shout', (value) => `${value}!`);
+      registry.register('upper', () => 'overridden');
+
+      expect(registry.has('shout')).toBe(true);
+      expect(apply('shout', 'hi')).toBe('hi!');
+      expect(apply('upper', 'hi')).toBe('overridden');
+    });
+
+    it('should reject names that cannot be used in templates', () => {
+      expect(() => registry.register('jira-key', (value) => value)).toThrow('Invalid filter name');
+    });
+  });
+
+  describe('built-in filters', () => {
+    it('should format dates with tokens', () => {
+      const date = new Date('2024-07-04T09:05:03Z');
+
+      expect(formatDate(date, 'YYYY-MM-DD HH:mm:ss')).toBe('2024-07-04 09:05:03');
+      expect(formatDate(date, 'MMMM D, YY')).toBe('July 4, 24');
+      expect(apply('format', 'not a date', 'YYYY')).toBe('not a date');
+    });
+
+    it('should change case', () => {
+      expect(apply('upper', 'draft')).toBe('DRAFT');
+      expect(apply('lower', 'DRAFT')).toBe('draft');
+      expect(apply('title', 'software requirements-spec')).toBe('Software Requirements-Spec');
+    });
+
+    it('should fall back to defaults for empty values', () => {
+      expect(apply('default', undefined, 'TBD')).toBe('TBD');
+      expect(apply('default', '', 'TBD')).toBe('TBD');
+      expect(apply('default', 0, 'TBD')).toBe(0);
+    });
+
+    it('should join and truncate', () => {
+      expect(apply('join', ['a', 'b'], ' / ')).toBe('a / b');
+      expect(apply('truncate', 'The quick brown fox', 12)).toBe('The quick...');
+      expect(apply('truncate', 'Short', 12)).toBe('Short');
+    });
+
+    it('should format numbers', () => {
+      expect(apply('number', 1234.5, 2)).toBe('1,234.50');
+      expect(apply('number', '42')).toBe('42');
+      expect(apply('number', 'n/a', 2)).toBe('n/a');
+    });
+
+    it('should escape markdown and slugify', () => {
+      expect(apply('escapeMarkdown', 'a|b *c*')).toBe('a\\|b \\*c\\*');
+      expect(apply('slugify', 'Héllo, World! 2.0')).toBe('hello-world-2-0');
+    });
+  });
+});
@@ -0,0 +1,550 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TemplateInheritance } from '../../src/implementations/TemplateInheritance.js';
+import type { ILogger } from '@chasenocap/logger';
+import type { ISDLCTemplate, ITemplateVariable } from '../../src/types/ContentTypes.js';
+import { compareVersions, parseTemplateRef, satisfies } from '../../src/utils/semver.js';
+
+// Mock logger
+const createMockLogger = (): ILogger => {
+  const logger: Partial<ILogger> = {
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+    child: () => createMockLogger()
+  };
+  return logger as ILogger;
+};
+
+const createTemplate = (
+  id: string,
+  content: string,
+  parent?: string,
+  mixins?: string[]
+): ISDLCTemplate => ({
+  id,
+  name: id,
+  category: 'document',
+  version: '1.0.0',
+  description: `${id} template`,
+  variables: [],
+  content,
+  parent,
+  mixins
+});
+
+const variable = (name: string, overrides: Partial<ITemplateVariable> = {}): ITemplateVariable => ({
+  name,
+  description: name,
+  type: 'string',
+  required: true,
+  ...overrides
+});
+
+describe('TemplateInheritance', () => {
+  let inheritance: TemplateInheritance;
+  let templates: Map<string, ISDLCTemplate>;
+
+  const base = createTemplate(
+    'base',
+    '# {{title}}\n{{#block intro}}Intro text{{/block}}\n{{#block scope}}Base scope{{/block}}\n{{#block refs}}- Standards{{/block}}'
+  );
+
+  const resolve = async (...children: ISDLCTemplate[]): Promise<string> => {
+    for (const template of [base, ...children]) {
+      templates.set(template.id, template);
+    }
+    const leaf = children[children.length - 1] ?? base;
+    const resolved = await inheritance.resolveTemplate(leaf.id);
+    return resolved.content;
+  };
+
+  beforeEach(() => {
+    templates = new Map();
+    inheritance = new TemplateInheritance(createMockLogger());
+    inheritance.setTemplateGetter(async (id) => templates.get(id));
+  });
+
+  describe('named blocks', () => {
+    it('should override only the blocks a child defines', async () => {
+      const content = await resolve(
+        createTemplate('child', '{{#block scope}}Child scope{{/block}}', 'base')
+      );
+
+      expect(content).toBe(
+        '# {{title}}\n{{#block intro}}Intro text{{/block}}\n{{#block scope}}Child scope{{/block}}\n{{#block refs}}- Standards{{/block}}'
+      );
+    });
+
+    it('should insert the parent block content for super', async () => {
+      const content = await resolve(
+        createTemplate('child', '{{#block refs}}{{ super }}\n- Interviews{{/block}}', 'base')
+      );
+
+      expect(content).toContain('{{#block refs}}- Standards\n- Interviews{{/block}}');
+    });
+
+    it('should remove blocks overridden with empty content', async () => {
+      const content = await resolve(createTemplate('child', '{{#block intro}}{{/block}}', 'base'));
+
+      expect(content).toContain('{{#block intro}}{{/block}}');
+      expect(content).not.toContain('Intro text');
+    });
+
+    it('should keep overriding through several levels', async () => {
+      const content = await resolve(
+        createTemplate('child', '{{#block scope}}{{super}} + child{{/block}}', 'base'),
+        createTemplate('grandchild', '{{#block scope}}{{super}} + grandchild{{/block}}', 'child')
+      );
+
+      expect(content).toContain('{{#block scope}}Base scope + child + grandchild{{/block}}');
+    });
+
+    it('should apply overrides to the content placed by {{> parent}}', async () => {
+      const content = await resolve(
+        createTemplate(
+          'child',
+          'Preface\n{{> parent}}\n{{#block intro}}New intro{{/block}}',
+          'base'
+        )
+      );
+
+      expect(content.startsWith('Preface\n# {{title}}\n{{#block intro}}New intro{{/block}}')).toBe(
+        true
+      );
+      expect(content.endsWith('- Standards{{/block}}\n')).toBe(true);
+    });
+
+    it('should replace the parent entirely when the child has no overrides', async () => {
+      const content = await resolve(createTemplate('child', 'Standalone $& content', 'base'));
+
+      expect(content).toBe('Standalone $& content');
+    });
+
+    it('should insert parent content containing replacement patterns literally', async () => {
+      templates.set('price', createTemplate('price', 'Costs $1 and $&'));
+      templates.set('child', createTemplate('child', 'Before {{> parent}}', 'price'));
+
+      const resolved = await inheritance.resolveTemplate('child');
+      expect(resolved.content).toBe('Before Costs $1 and $&');
+    });
+  });
+
+  describe('mixins', () => {
+    const add = (...list: ISDLCTemplate[]) =>
+      list.forEach((template) => templates.set(template.id, template));
+
+    it('should linearize mixins before the parent', async () => {
+      add(
+        base,
+        createTemplate('audit', '{{#block refs}}{{super}}\n- Audit log{{/block}}'),
+        createTemplate('hipaa', '{{#block scope}}{{super}} + PHI{{/block}}'),
+        createTemplate('spec', '{{#block scope}}{{super}} + spec{{/block}}', 'base', [
+          'hipaa',
+          'audit'
+        ])
+      );
+
+      expect(await inheritance.getInheritanceChain('spec')).toEqual([
+        'spec',
+        'hipaa',
+        'audit',
+        'base'
+      ]);
+
+      const resolved = await inheritance.resolveTemplate('spec');
+      expect(resolved.content).toContain('{{#block scope}}Base scope + PHI + spec{{/block}}');
+      expect(resolved.content).toContain('{{#block refs}}- Standards\n- Audit log{{/block}}');
+    });
+
+    it('should place shared ancestors after every template that inherits them', async () => {
+      add(
+        base,
+        createTemplate('hipaa', '{{#block scope}}PHI{{/block}}', 'base'),
+        createTemplate('spec', '{{#block intro}}Spec{{/block}}', 'base'),
+        createTemplate('regulated', '{{> parent}}', 'spec', ['hipaa'])
+      );
+
+      expect(await inheritance.getInheritanceChain('regulated')).toEqual([
+        'regulated',
+        'hipaa',
+        'spec',
+        'base'
+      ]);
+    });
+
+    it('should reject hierarchies without a consistent order', async () => {
+      add(
+        base,
+        createTemplate('a', '{{> parent}}', 'base'),
+        createTemplate('broken', '{{> parent}}', 'a', ['base'])
+      );
+
+      await expect(inheritance.getInheritanceChain('broken')).rejects.toThrow(
+        'Cannot linearize inheritance for broken'
+      );
+    });
+
+    it('should detect circular inheritance through mixins', async () => {
+      add(createTemplate('a', 'A', undefined, ['b']), createTemplate('b', 'B', 'a'));
+
+      await expect(inheritance.getInheritanceChain('a')).rejects.toThrow(
+        'Circular inheritance detected: a -> b -> a'
+      );
+    });
+
+    it('should merge variables by precedence and union tags', async () => {
+      add(
+        { ...base, variables: [variable('title')], tags: ['base'] },
+        { ...createTemplate('hipaa', 'x'), variables: [variable('officer')], tags: ['hipaa'] },
+        { ...createTemplate('spec', '{{> parent}}', 'base', ['hipaa']), tags: ['base', 'spec'] }
+      );
+
+      const resolved = await inheritance.resolveTemplate('spec');
+      expect(resolved.variables.map((v) => v.name).sort()).toEqual(['officer', 'title']);
+      expect(resolved.tags?.sort()).toEqual(['base', 'hipaa', 'spec']);
+    });
+
+    it('should not pass deprecation on to inheriting templates', async () => {
+      add(
+        { ...base, deprecated: { since: '2.0.0', replacedBy: 'document-base' } },
+        createTemplate('spec', '{{> parent}}', 'base')
+      );
+
+      expect((await inheritance.resolveTemplate('spec')).deprecated).toBeUndefined();
+    });
+
+    it('should report conflicting definitions from unrelated templates', async () => {
+      const spec = createTemplate('spec', '{{> parent}}', 'base', ['hipaa']);
+      add(
+        { ...base, variables: [variable('owner', { type: 'string' })] },
+        { ...createTemplate('hipaa', 'x'), variables: [variable('owner', { type: 'object' })] },
+        spec
+      );
+
+      const order = await inheritance.getResolutionOrder('spec');
+      expect(order.conflicts).toEqual([
+        expect.objectContaining({
+          type: 'variable',
+          name: 'owner',
+          templates: ['hipaa', 'base'],
+          resolvedFrom: 'hipaa'
+        })
+      ]);
+
+      // Redefining the variable in the child settles the conflict
+      templates.set('spec', {
+        ...spec,
+        variables: [variable('owner', { type: 'object' })]
+      });
+      expect((await inheritance.getResolutionOrder('spec')).conflicts).toEqual([]);
+    });
+
+    it('should describe the resolution order as a diagram', async () => {
+      add(
+        base,
+        createTemplate('hipaa', 'x'),
+        createTemplate('spec', '{{> parent}}', 'base', ['hipaa'])
+      );
+
+      const order = await inheritance.getResolutionOrder('spec');
+      expect(order.order).toEqual(['spec', 'hipaa', 'base']);
+      expect(order.bases.spec).toEqual({ parent: 'base', mixins: ['hipaa'] });
+      expect(order.diagram).toBe(
+        [
+          'graph TD',
+          '  t0["1. spec"]',
+          '  t1["2. hipaa"]',
+          '  t2["3. base"]',
+          '  t0 -->|mixin| t1',
+          '  t0 -->|parent| t2'
+        ].join('\n')
+      );
+    });
+  });
+
+  describe('variable merge strategies', () => {
+    const resolveVariables = async (
+      inherited: ITemplateVariable,
+      redefined: ITemplateVariable
+    ): Promise<{ merged: ITemplateVariable | undefined; conflicts: string[] }> => {
+      templates.set('base', { ...base, variables: [inherited] });
+      templates.set('child', {
+        ...createTemplate('child', '{{> parent}}', 'base'),
+        variables: [redefined]
+      });
+
+      inheritance.clearCache();
+      const resolved = await inheritance.resolveTemplate('child');
+      return {
+        merged: resolved.variables.find((v) => v.name === inherited.name),
+        conflicts: (await inheritance.getVariableConflicts('child')).map(
+          (conflict) => conflict.message
+        )
+      };
+    };
+
+    it('should replace inherited definitions by default', async () => {
+      const { merged, conflicts } = await resolveVariables(
+        variable('author'),
+        variable('author', { required: false })
+      );
+
+      expect(merged?.required).toBe(false);
+      expect(conflicts).toEqual([]);
+    });
+
+    it('should keep final variables and report redefinitions', async () => {
+      const { merged, conflicts } = await resolveVariables(
+        variable('author', { merge: 'final' }),
+        variable('author', { required: false })
+      );
+
+      expect(merged?.required).toBe(true);
+      expect(conflicts).toEqual([
+        "Variable 'author' is final in 'base' and cannot be redefined by 'child'"
+      ]);
+    });
+
+    it('should accept identical redeclarations of final and sealed variables', async () => {
+      const final = variable('author', { merge: 'final' });
+      expect((await resolveVariables(final, { ...final })).conflicts).toEqual([]);
+
+      const sealed = variable('author', { sealed: true });
+      expect((await resolveVariables(sealed, { ...sealed })).conflicts).toEqual([]);
+    });
+
+    it('should only allow sealed variables to be extended', async () => {
+      const overridden = await resolveVariables(
+        variable('author', { sealed: true }),
+        variable('author', { required: false })
+      );
+      expect(overridden.merged?.required).toBe(true);
+      expect(overridden.conflicts[0]).toContain("Variable 'author' is sealed in 'base'");
+
+      const extended = await resolveVariables(
+        variable('author', { sealed: true }),
+        variable('author', { merge: 'extend', validation: { pattern: '^[A-Z]' } })
+      );
+      expect(extended.conflicts).toEqual([]);
+      expect(extended.merged).toMatchObject({ sealed: true, validation: { pattern: '^[A-Z]' } });
+    });
+
+    it('should tighten validation constraints when extending', async () => {
+      const { merged, conflicts } = await resolveVariables(
+        variable('priority', {
+          type: 'number',
+          validation: { min: 1, max: 10, enum: [1, 2, 3, 5, 8] }
+        }),
+        variable('priority', {
+          type: 'number',
+          merge: 'extend',
+          description: 'Story points',
+          validation: { min: 2, max: 20, enum: [2, 3, 4] }
+        })
+      );
+
+      expect(conflicts).toEqual([]);
+      expect(merged).toMatchObject({
+        description: 'Story points',
+        required: true,
+        validation: { min: 2, max: 10, enum: [2, 3] }
+      });
+      expect(merged?.merge).toBeUndefined();
+    });
+
+    it('should report extensions that loosen the inherited definition', async () => {
+      const { merged, conflicts } = await resolveVariables(
+        variable('code', { validation: { pattern: '^[A-Z]+$', min: 5 } }),
+        variable('code', {
+          type: 'number',
+          required: false,
+          merge: 'extend',
+          validation: { pattern: '.*', max: 3 }
+        })
+      );
+
+      expect(conflicts).toEqual([
+        "'child' cannot extend variable 'code': the type cannot change from string to number",
+        "'child' cannot extend variable 'code': a required variable cannot become optional",
+        "'child' cannot extend variable 'code': the pattern '^[A-Z]+$' cannot be replaced",
+        "'child' cannot extend variable 'code': the range 5..3 is empty"
+      ]);
+      expect(merged).toMatchObject({
+        type: 'string',
+        required: true,
+        validation: { pattern: '^[A-Z]+$' }
+      });
+    });
+
+    it('should lock variables that a child declares final', async () => {
+      templates.set('base', { ...base, variables: [variable('author')] });
+      templates.set('child', {
+        ...createTemplate('child', '{{> parent}}', 'base'),
+        variables: [variable('author', { merge: 'final' })]
+      });
+      templates.set('grandchild', {
+        ...createTemplate('grandchild', '{{> parent}}', 'child'),
+        variables: [variable('author', { required: false })]
+      });
+
+      await inheritance.resolveTemplate('grandchild');
+      expect(await inheritance.getVariableConflicts('grandchild')).toEqual([
+        {
+          path: 'variables.author',
+          message: "Variable 'author' is final in 'child' and cannot be redefined by 'grandchild'",
+          type: 'conflict'
+        }
+      ]);
+    });
+
+    it('should resolve templates to find their conflicts', async () => {
+      templates.set('base', { ...base, variables: [variable('author', { merge: 'final' })] });
+      templates.set('child', {
+        ...createTemplate('child', '{{> parent}}', 'base'),
+        variables: [variable('author', { required: false })]
+      });
+
+      inheritance.clearCache();
+      expect(await inheritance.getVariableConflicts('child')).toEqual([
+        {
+          path: 'variables.author',
+          message: "Variable 'author' is final in 'base' and cannot be redefined by 'child'",
+          type: 'conflict'
+        }
+      ]);
+    });
+
+    it('should check the variables of a template that is not loaded', async () => {
+      templates.set('base', { ...base, variables: [variable('author', { merge: 'final' })] });
+
+      const draft: ISDLCTemplate = {
+        ...createTemplate('draft', '{{> parent}}', 'base'),
+        variables: [variable('author', { required: false })]
+      };
+      expect(await inheritance.findConflicts(draft)).toEqual([
+        {
+          path: 'variables.author',
+          message: "Variable 'author' is final in 'base' and cannot be redefined by 'draft'",
+          type: 'conflict'
+        }
+      ]);
+      expect(templates.has('draft')).toBe(false);
+    });
+
+    it('should check the given object rather than the loaded template with its id', async () => {
+      templates.set('base', { ...base, variables: [variable('author', { sealed: true })] });
+      templates.set('child', createTemplate('child', '{{> parent}}', 'base'));
+      expect(await inheritance.getVariableConflicts('child')).toEqual([]);
+
+      const edited = {
+        ...createTemplate('child', '{{> parent}}', 'base'),
+        variables: [variable('author', { required: false })]
+      };
+      const conflicts = await inheritance.findConflicts(edited);
+      expect(conflicts.map((conflict) => conflict.message)).toEqual([
+        "Variable 'author' is sealed in 'base'; 'child' can only redefine it with merge: extend"
+      ]);
+      expect(await inheritance.getVariableConflicts('child')).toEqual([]);
+    });
+  });
+
+  describe('cache invalidation', () => {
+    const add = (...list: ISDLCTemplate[]) =>
+      list.forEach((template) => templates.set(template.id, template));
+
+    beforeEach(async () => {
+      add(
+        base,
+        createTemplate('hipaa', '{{#block scope}}{{super}} + PHI{{/block}}'),
+        createTemplate('spec', '{{#block intro}}Spec intro{{/block}}', 'base'),
+        createTemplate('regulated', '{{> parent}}', 'spec', ['hipaa']),
+        createTemplate('plan', '{{#block refs}}Plan refs{{/block}}', 'base'),
+        createTemplate('standalone', 'No inheritance')
+      );
+      for (const id of ['regulated', 'plan', 'standalone']) {
+        await inheritance.resolveTemplate(id);
+      }
+    });
+
+    it('should invalidate every template that depends on a change', async () => {
+      expect(inheritance.invalidate('base')).toEqual(['base', 'spec', 'plan', 'regulated']);
+
+      add({ ...base, content: base.content.replace('Base scope', 'Updated scope') });
+      expect((await inheritance.resolveTemplate('regulated')).content).toContain(
+        'Updated scope + PHI'
+      );
+      expect((await inheritance.resolveTemplate('plan')).content).toContain('Updated scope');
+    });
+
+    it('should only invalidate templates inheriting from a mixin', async () => {
+      const standalone = await inheritance.resolveTemplate('standalone');
+
+      expect(inheritance.invalidate('hipaa')).toEqual(['hipaa', 'regulated']);
+      expect(await inheritance.resolveTemplate('standalone')).toBe(standalone);
+    });
+
+    it('should follow a template that changes its parent', async () => {
+      add(createTemplate('regulated', '{{> parent}}', 'plan'));
+      expect(inheritance.invalidate('regulated')).toEqual(['regulated']);
+      await inheritance.resolveTemplate('regulated');
+
+      expect(inheritance.invalidate('spec')).toEqual(['spec']);
+      expect(inheritance.invalidate('plan')).toEqual(['plan', 'regulated']);
+    });
+  });
+
+  describe('versions', () => {
+    let versions: ISDLCTemplate[];
+
+    const add = (...list: ISDLCTemplate[]) => {
+      versions.push(...list);
+      versions.sort((a, b) => compareVersions(b.version, a.version));
+    };
+
+    beforeEach(() => {
+      versions = [];
+      inheritance.setTemplateGetter(async (ref) => {
+        const { id, range } = parseTemplateRef(ref);
+        return versions.find((t) => t.id === id && (!range || satisfies(t.version, range)));
+      });
+      add(
+        { ...base, version: '1.4.0', content: '{{#block scope}}Scope v1{{/block}}' },
+        { ...base, version: '2.0.0', content: '{{#block scope}}Scope v2{{/block}}' }
+      );
+    });
+
+    it('should resolve pinned parents to the newest matching version', async () => {
+      add(
+        createTemplate('pinned', '{{#block scope}}{{super}} + pinned{{/block}}', 'base@1.x'),
+        createTemplate('floating', '{{#block scope}}{{super}} + floating{{/block}}', 'base')
+      );
+
+      expect((await inheritance.resolveTemplate('pinned')).content).toBe(
+        '{{#block scope}}Scope v1 + pinned{{/block}}'
+      );
+      expect((await inheritance.resolveTemplate('floating')).content).toBe(
+        '{{#block scope}}Scope v2 + floating{{/block}}'
+      );
+      expect(await inheritance.getInheritanceChain('pinned')).toEqual(['pinned', 'base@1.4.0']);
+    });
+
+    it('should cache each version of a template separately', async () => {
+      add(
+        {
+          ...createTemplate('spec', '{{#block scope}}Old{{/block}}', 'base@1.x'),
+          version: '0.9.0'
+        },
+        createTemplate('spec', '{{#block scope}}{{super}} + new{{/block}}', 'base')
+      );
+
+      const latest = await inheritance.resolveTemplate('spec');
+      const older = await inheritance.resolveTemplate('spec@0.x');
+
+      expect(latest.content).toBe('{{#block scope}}Scope v2 + new{{/block}}');
+      expect(older.content).toBe('{{#block scope}}Old{{/block}}');
+      expect(await inheritance.resolveTemplate('spec@^0.9')).toBe(older);
+      expect(inheritance.invalidate('base')).toEqual(['base', 'spec']);
+    });
+  });
+});
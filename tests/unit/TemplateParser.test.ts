@@ -0,0 +1,329 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TemplateParser } from '../../src/implementations/TemplateParser.js';
+
+describe('TemplateParser', () => {
+  let parser: TemplateParser;
+
+  beforeEach(() => {
+    parser = new TemplateParser();
+  });
+
+  describe('parse', () => {
+    it('should produce text and variable nodes', () => {
+      const ast = parser.parse('Hello {{ user.name }}!');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body.map((n) => n.type)).toEqual(['text', 'variable', 'text']);
+      expect(ast.body[1]).toMatchObject({
+        type: 'variable',
+        expression: { type: 'path', segments: ['user', 'name'] },
+        filters: []
+      });
+    });
+
+    it('should nest conditionals correctly', () => {
+      const ast = parser.parse('{{#if a}}A{{#if b}}B{{/if}}C{{/if}}D');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body).toHaveLength(2);
+
+      const outer = ast.body[0];
+      expect(outer?.type).toBe('if');
+      if (outer?.type === 'if') {
+        expect(outer.condition).toEqual({ type: 'path', segments: ['a'] });
+        expect(outer.body.map((n) => n.type)).toEqual(['text', 'if', 'text']);
+      }
+    });
+
+    it('should parse loops with their alias', () => {
+      const ast = parser.parse('{{#each items as item}}{{item.name}}{{/each}}');
+
+      expect(ast.body[0]).toMatchObject({
+        type: 'each',
+        collection: 'items',
+        alias: 'item'
+      });
+    });
+
+    it('should parse loop else branches', () => {
+      const ast = parser.parse('{{#each items as item}}{{item}}{{else}}none{{/each}}');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({
+        type: 'each',
+        inverse: [{ type: 'text', value: 'none' }]
+      });
+    });
+
+    it('should parse filter chains with arguments', () => {
+      const ast = parser.parse('{{ date | format "YYYY-MM-DD" | default fallback }}');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({
+        type: 'variable',
+        filters: [
+          { name: 'format', args: [{ type: 'literal', value: 'YYYY-MM-DD' }] },
+          { name: 'default', args: [{ type: 'path', segments: ['fallback'] }] }
+        ]
+      });
+    });
+
+    it('should report a missing filter name', () => {
+      const ast = parser.parse('{{ value | }}');
+
+      expect(ast.errors[0]?.message).toContain('Expected a filter name');
+    });
+
+    it('should parse partial references', () => {
+      const ast = parser.parse('{{> parent}}');
+
+      expect(ast.body[0]).toMatchObject({ type: 'partial', name: 'parent', params: [] });
+    });
+
+    it('should parse partial parameters as expressions', () => {
+      const ast = parser.parse(
+        `{{> document-control version=doc.version label="Initial version" draft=true note='a b'}}`
+      );
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({
+        type: 'partial',
+        name: 'document-control',
+        params: [
+          { name: 'version', value: { type: 'path', segments: ['doc', 'version'] } },
+          { name: 'label', value: { type: 'literal', value: 'Initial version' } },
+          { name: 'draft', value: { type: 'literal', value: true } },
+          { name: 'note', value: { type: 'literal', value: 'a b' } }
+        ]
+      });
+    });
+
+    it('should report malformed and duplicate partial parameters', () => {
+      expect(parser.parse('{{> signatures roles}}').errors[0]?.message).toContain(
+        "Invalid partial parameter 'roles'"
+      );
+      expect(parser.parse('{{> signatures a=1 a=2}}').errors[0]?.message).toContain(
+        "Duplicate partial parameter 'a'"
+      );
+    });
+
+    it('should mark triple-brace variables as unescaped', () => {
+      const ast = parser.parse('{{{ body }}} {{title}}');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({ type: 'variable', unescaped: true });
+      expect(ast.body[2]).toMatchObject({ type: 'variable', unescaped: false });
+    });
+
+    it('should reject block tags in triple braces', () => {
+      const ast = parser.parse('{{{#if ready}}}');
+
+      expect(ast.errors[0]?.message).toContain('Triple braces can only wrap a variable');
+      expect(ast.body[0]).toMatchObject({ type: 'text', value: '{{{#if ready}}}' });
+    });
+
+    it('should track line and column positions', () => {
+      const ast = parser.parse('line one\n  {{value}}');
+
+      expect(ast.body[1]?.position).toMatchObject({ line: 2, column: 3 });
+    });
+  });
+
+  describe('conditional branches', () => {
+    it('should place {{else}} content in the inverse branch', () => {
+      const ast = parser.parse('{{#if a}}yes{{else}}no{{/if}}');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({
+        type: 'if',
+        body: [{ type: 'text', value: 'yes' }],
+        inverse: [{ type: 'text', value: 'no' }]
+      });
+    });
+
+    it('should chain {{else if}} as nested conditionals closed by one {{/if}}', () => {
+      const ast = parser.parse('{{#if a}}A{{else if b}}B{{else if c}}C{{else}}D{{/if}}!');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body).toHaveLength(2);
+      expect(ast.body[0]).toMatchObject({
+        type: 'if',
+        condition: { type: 'path', segments: ['a'] },
+        inverse: [
+          {
+            type: 'if',
+            condition: { type: 'path', segments: ['b'] },
+            inverse: [
+              {
+                type: 'if',
+                condition: { type: 'path', segments: ['c'] },
+                inverse: [{ type: 'text', value: 'D' }]
+              }
+            ]
+          }
+        ]
+      });
+    });
+
+    it('should parse unless blocks with else branches', () => {
+      const ast = parser.parse('{{#unless done}}todo{{else}}done{{/unless}}');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({
+        type: 'unless',
+        condition: { type: 'path', segments: ['done'] }
+      });
+    });
+
+    it('should report {{else}} outside of a conditional', () => {
+      const ast = parser.parse('text {{else}} more');
+
+      expect(ast.errors[0]?.message).toContain(
+        'must be inside an {{#if}}, {{#unless}}, {{#with}} or {{#each}} block'
+      );
+    });
+
+    it('should report a second {{else}} in the same block', () => {
+      const ast = parser.parse('{{#if a}}A{{else}}B{{else}}C{{/if}}');
+
+      expect(ast.errors).toHaveLength(1);
+      expect(ast.errors[0]?.message).toContain('cannot follow {{else}}');
+    });
+
+    it('should report an unless block closed as an if block', () => {
+      const ast = parser.parse('{{#unless a}}A{{/if}}');
+
+      expect(ast.errors.some((e) => e.message.includes('{{/if}} without opening'))).toBe(true);
+      expect(ast.errors.some((e) => e.message.includes('{{#unless}} is never closed'))).toBe(true);
+    });
+  });
+
+  describe('expressions', () => {
+    it('should parse comparison and logical conditions', () => {
+      const ast = parser.parse('{{#if risks.length > 0 && !hidden}}x{{/if}}');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({
+        type: 'if',
+        condition: {
+          type: 'logical',
+          operator: '&&',
+          left: {
+            type: 'binary',
+            operator: '>',
+            left: { type: 'path', segments: ['risks', 'length'] },
+            right: { type: 'literal', value: 0 }
+          },
+          right: { type: 'unary', operator: '!' }
+        }
+      });
+    });
+
+    it('should parse with blocks with and without an alias', () => {
+      const ast = parser.parse(
+        '{{#with project.owner as owner}}a{{/with}}{{#with project}}b{{/with}}'
+      );
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({ type: 'with', alias: 'owner' });
+      expect(ast.body[1]).toMatchObject({ type: 'with', alias: undefined });
+    });
+
+    it('should report expression syntax errors with their column', () => {
+      const ast = parser.parse('{{#if priority == }}x{{/if}}');
+
+      expect(ast.errors).toHaveLength(1);
+      expect(ast.errors[0]?.message).toContain('Invalid expression');
+      expect(ast.errors[0]?.column).toBe(18);
+    });
+  });
+
+  describe('named blocks', () => {
+    it('should parse blocks and super references', () => {
+      const ast = parser.parse('{{#block scope}}{{super}} and {{system}}{{/block}}');
+
+      expect(ast.errors).toHaveLength(0);
+      expect(ast.body[0]).toMatchObject({
+        type: 'block',
+        name: 'scope',
+        body: [{ type: 'super' }, { type: 'text', value: ' and ' }, { type: 'variable' }]
+      });
+    });
+
+    it('should allow super inside other blocks within a named block', () => {
+      const ast = parser.parse('{{#block notes}}{{#if draft}}{{super}}{{/if}}{{/block}}');
+
+      expect(ast.errors).toHaveLength(0);
+    });
+
+    it('should reject super outside a named block', () => {
+      const ast = parser.parse('{{#if a}}{{super}}{{/if}}');
+
+      expect(ast.errors[0]?.message).toBe('{{super}} can only be used inside a {{#block}}');
+      expect(ast.body[0]).toMatchObject({ body: [{ type: 'text', value: '{{super}}' }] });
+    });
+
+    it('should report invalid, duplicate and unclosed blocks', () => {
+      expect(parser.parse('{{#block}}x{{/block}}').errors[0]?.message).toContain(
+        'Invalid block name'
+      );
+      expect(parser.parse('{{#block a}}{{/block}}{{#block a}}{{/block}}').errors[0]?.message).toBe(
+        "Duplicate block 'a'"
+      );
+      expect(parser.parse('{{#block a}}text').errors[0]?.message).toContain(
+        'Unmatched named block'
+      );
+    });
+
+    it('should reject else directly inside a block', () => {
+      const ast = parser.parse('{{#block a}}x{{else}}y{{/block}}');
+
+      expect(ast.errors[0]?.message).toContain('cannot be used directly inside a {{#block}}');
+    });
+  });
+
+  describe('error recovery', () => {
+    it('should report unclosed tags and keep them as text', () => {
+      const ast = parser.parse('Hello {{ name } welcome!');
+
+      expect(ast.errors).toHaveLength(1);
+      expect(ast.errors[0]?.message).toContain('Unmatched opening brackets');
+      expect(ast.body).toEqual([
+        expect.objectContaining({ type: 'text', value: 'Hello {{ name } welcome!' })
+      ]);
+    });
+
+    it('should report stray closing brackets', () => {
+      const ast = parser.parse('Hello name}}');
+
+      expect(ast.errors[0]?.message).toContain('Unmatched closing brackets');
+    });
+
+    it('should report unclosed blocks with their position', () => {
+      const ast = parser.parse('Intro\n{{#each items as item}}{{item}}');
+
+      expect(ast.errors).toHaveLength(1);
+      expect(ast.errors[0]).toMatchObject({ line: 2, column: 1 });
+      expect(ast.errors[0]?.message).toContain('Unmatched loop block');
+    });
+
+    it('should report mismatched closing tags', () => {
+      const ast = parser.parse('{{#if a}}text{{/each}}{{/if}}');
+
+      expect(ast.errors).toHaveLength(1);
+      expect(ast.errors[0]?.message).toContain('{{/each}} without opening');
+    });
+
+    it('should report invalid loop headers', () => {
+      const ast = parser.parse('{{#each items}}x{{/each}}');
+
+      expect(ast.errors.some((e) => e.message.includes('Invalid loop header'))).toBe(true);
+    });
+
+    it('should report unknown block helpers', () => {
+      const ast = parser.parse('{{#repeat 3}}x{{/repeat}}');
+
+      expect(ast.errors.some((e) => e.message.includes('Unknown block helper #repeat'))).toBe(true);
+    });
+  });
+});
@@ -1,16 +1,21 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { TemplateRenderer } from '../../src/implementations/TemplateRenderer.js';
+import {
+  TemplateRenderer,
+  UndefinedVariableError
+} from '../../src/implementations/TemplateRenderer.js';
+import { VariableValidatorRegistry } from '../../src/implementations/VariableValidatorRegistry.js';
 import type { ILogger } from '@chasenocap/logger';
 import type { ISDLCTemplate } from '../../src/types/ContentTypes.js';
 
 // Mock logger
-const createMockLogger = (): ILogger => ({
-  debug: () => {},
-  info: () => {},
-  warn: () => {},
-  error: () => {},
-  child: () => createMockLogger()
-} as any);
+const createMockLogger = (): ILogger =>
+  ({
+    debug: () => {},
+    info: () => {},
+    warn: () => {},
+    error: () => {},
+    child: () => createMockLogger()
+  }) as any;
 
 describe('TemplateRenderer', () => {
   let renderer: TemplateRenderer;
@@ -58,7 +63,7 @@ describe('TemplateRenderer', () => {
 
     it('should process conditionals', () => {
       const template = '{{#if premium}}Premium User{{/if}}{{#if regular}}Regular User{{/if}}';
-      
+
       const premiumResult = renderer.render(template, { premium: true, regular: false });
       expect(premiumResult).toBe('Premium User');
 
@@ -69,11 +74,7 @@ describe('TemplateRenderer', () => {
     it('should process loops', () => {
       const template = 'Items:{{#each items as item}} {{item.name}}{{/each}}';
       const variables = {
-        items: [
-          { name: 'Apple' },
-          { name: 'Banana' },
-          { name: 'Cherry' }
-        ]
+        items: [{ name: 'Apple' }, { name: 'Banana' }, { name: 'Cherry' }]
       };
 
       const result = renderer.render(template, variables);
@@ -106,21 +107,451 @@ Tasks:
       };
 
       const result = renderer.render(template, variables);
-      
+
       // Check Alice's section
       expect(result).toContain('User: Alice');
       expect(result).toContain('Tasks:'); // Alice should have tasks section
       expect(result).toContain('- Code');
       expect(result).toContain('- Review');
-      
+
       // Check Bob's section
       expect(result).toContain('User: Bob');
-      
+
       // Bob shouldn't have a tasks section - check that there's no "Tasks:" after "User: Bob"
       const bobIndex = result.indexOf('User: Bob');
       const bobSection = result.slice(bobIndex);
       expect(bobSection).not.toContain('Tasks:');
     });
+
+    it('should handle nested conditionals', () => {
+      const template = '{{#if a}}A{{#if b}}B{{/if}}C{{/if}}D';
+
+      expect(renderer.render(template, { a: true, b: true })).toBe('ABCD');
+      expect(renderer.render(template, { a: true, b: false })).toBe('ACD');
+      expect(renderer.render(template, { a: false, b: true })).toBe('D');
+    });
+
+    it('should not interpret substituted values as template syntax', () => {
+      const template = 'Name: {{name}}';
+      const result = renderer.render(template, { name: '{{secret}}', secret: 'leaked' });
+
+      expect(result).toBe('Name: {{secret}}');
+    });
+
+    it('should let loop aliases shadow outer variables', () => {
+      const template = '{{#each items as name}}[{{name}}]{{/each}} {{name}}';
+      const result = renderer.render(template, { items: ['a', 'b'], name: 'outer' });
+
+      expect(result).toBe('[a][b] outer');
+    });
+  });
+
+  describe('conditional branches', () => {
+    it('should render else branches', () => {
+      const template = '{{#if approved}}Approved{{else}}Pending{{/if}}';
+
+      expect(renderer.render(template, { approved: true })).toBe('Approved');
+      expect(renderer.render(template, { approved: false })).toBe('Pending');
+    });
+
+    it('should render the first matching else if branch', () => {
+      const template = '{{#if critical}}P0{{else if high}}P1{{else if medium}}P2{{else}}P3{{/if}}';
+
+      expect(renderer.render(template, { critical: true, high: true })).toBe('P0');
+      expect(renderer.render(template, { high: true, medium: true })).toBe('P1');
+      expect(renderer.render(template, { medium: true })).toBe('P2');
+      expect(renderer.render(template, {})).toBe('P3');
+    });
+
+    it('should render unless blocks', () => {
+      const template = '{{#unless signedOff}}Awaiting sign-off{{else}}Signed off{{/unless}}';
+
+      expect(renderer.render(template, { signedOff: false })).toBe('Awaiting sign-off');
+      expect(renderer.render(template, { signedOff: true })).toBe('Signed off');
+    });
+
+    it('should handle conditionals nested inside else branches', () => {
+      const template = '{{#if a}}A{{else}}{{#if b}}B{{else}}none{{/if}}{{/if}}';
+
+      expect(renderer.render(template, { b: true })).toBe('B');
+      expect(renderer.render(template, {})).toBe('none');
+    });
+  });
+
+  describe('expressions', () => {
+    it('should evaluate comparisons in conditionals', () => {
+      const template = '{{#if priority == "high"}}Urgent{{else}}Normal{{/if}}';
+
+      expect(renderer.render(template, { priority: 'high' })).toBe('Urgent');
+      expect(renderer.render(template, { priority: 'low' })).toBe('Normal');
+    });
+
+    it('should evaluate logical expressions with length checks', () => {
+      const template = '{{#if risks.length > 0 && showRisks}}Risks: {{risks.length}}{{/if}}';
+
+      expect(renderer.render(template, { risks: ['a', 'b'], showRisks: true })).toBe('Risks: 2');
+      expect(renderer.render(template, { risks: [], showRisks: true })).toBe('');
+      expect(renderer.render(template, { risks: ['a'], showRisks: false })).toBe('');
+    });
+
+    it('should not expose prototype members', () => {
+      const template = '{{#if name.constructor}}leak{{/if}}{{name.toString}}';
+
+      expect(renderer.render(template, { name: {} })).toBe('');
+    });
+
+    it('should scope with blocks to the given object', () => {
+      const template = '{{#with project.owner}}{{name}} <{{email}}> for {{title}}{{/with}}';
+      const variables = {
+        title: 'SRS',
+        project: { owner: { name: 'Ada', email: 'ada@example.com' } }
+      };
+
+      expect(renderer.render(template, variables)).toBe('Ada <ada@example.com> for SRS');
+    });
+
+    it('should bind with aliases and render else for falsy values', () => {
+      const template = '{{#with project.owner as owner}}{{owner.name}}{{else}}Unassigned{{/with}}';
+
+      expect(renderer.render(template, { project: { owner: { name: 'Ada' } } })).toBe('Ada');
+      expect(renderer.render(template, { project: {} })).toBe('Unassigned');
+    });
+  });
+
+  describe('loop metadata', () => {
+    it('should expose @index and @number', () => {
+      const template = '{{#each reqs as req}}{{@number}}. {{req}} ({{@index}})\n{{/each}}';
+
+      expect(renderer.render(template, { reqs: ['Login', 'Logout'] })).toBe(
+        '1. Login (0)\n2. Logout (1)\n'
+      );
+    });
+
+    it('should expose @first and @last for separators', () => {
+      const template = '{{#each tags as tag}}{{tag}}{{#unless @last}}, {{/unless}}{{/each}}';
+
+      expect(renderer.render(template, { tags: ['a', 'b', 'c'] })).toBe('a, b, c');
+    });
+
+    it('should iterate object entries with @key', () => {
+      const template =
+        '{{#each owners as owner}}{{#if @first}}|{{/if}}{{@key}}={{owner}}|{{/each}}';
+
+      expect(renderer.render(template, { owners: { api: 'Ada', ui: 'Lin' } })).toBe(
+        '|api=Ada|ui=Lin|'
+      );
+    });
+
+    it('should render the else branch for empty collections', () => {
+      const template = '{{#each risks as risk}}- {{risk}}{{else}}No risks identified{{/each}}';
+
+      expect(renderer.render(template, { risks: [] })).toBe('No risks identified');
+      expect(renderer.render(template, {})).toBe('No risks identified');
+      expect(renderer.render(template, { risks: ['Scope creep'] })).toBe('- Scope creep');
+    });
+
+    it('should scope metadata to the innermost loop', () => {
+      const template =
+        '{{#each groups as group}}{{#each group as item}}{{@index}}{{/each}}:{{@index}} {{/each}}';
+
+      expect(renderer.render(template, { groups: [['a', 'b'], ['c']] })).toBe('01:0 0:1 ');
+    });
+  });
+
+  describe('filters', () => {
+    it('should apply filters left to right', () => {
+      const template = '{{ name | default "unnamed" | upper }}';
+
+      expect(renderer.render(template, { name: 'api' })).toBe('API');
+      expect(renderer.render(template, {})).toBe('UNNAMED');
+    });
+
+    it('should format dates', () => {
+      const template = '{{date | format "DD MMM YYYY"}}';
+
+      expect(renderer.render(template, { date: new Date('2024-03-05T00:00:00Z') })).toBe(
+        '05 Mar 2024'
+      );
+      expect(renderer.render(template, { date: '2024-12-31' })).toBe('31 Dec 2024');
+    });
+
+    it('should render dates and arrays readably without filters', () => {
+      const template = '{{date}} / {{tags}}';
+      const variables = { date: new Date('2024-03-05T12:00:00Z'), tags: ['a', 'b'] };
+
+      expect(renderer.render(template, variables)).toBe('2024-03-05 / a, b');
+    });
+
+    it('should resolve filter arguments from variables', () => {
+      const template = '{{items | join separator}}';
+
+      expect(renderer.render(template, { items: [1, 2, 3], separator: ' | ' })).toBe('1 | 2 | 3');
+    });
+
+    it('should use custom registered filters', () => {
+      renderer.registerFilter('reverse', (value) => String(value).split('').reverse().join(''));
+
+      expect(renderer.render('{{word | reverse}}', { word: 'abc' })).toBe('cba');
+    });
+
+    it('should pass values through unknown filters', () => {
+      expect(renderer.render('{{word | missing}}', { word: 'abc' })).toBe('abc');
+    });
+  });
+
+  describe('undefined variables', () => {
+    const template = [
+      'Title: {{title}}',
+      'Owner: {{project.owner | upper}}',
+      'Status: {{status | default "Draft"}}'
+    ].join('\n');
+
+    it('should render undefined variables as empty by default', () => {
+      expect(renderer.render(template, { title: 'Doc' })).toBe(
+        'Title: Doc\nOwner: \nStatus: Draft'
+      );
+    });
+
+    it('should throw a structured error in strict mode', () => {
+      let error: unknown;
+      try {
+        renderer.render(template, { project: {} }, { strict: true });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(UndefinedVariableError);
+      expect((error as UndefinedVariableError).references).toEqual([
+        { name: 'title', line: 1, column: 8 },
+        { name: 'project.owner', line: 2, column: 8 }
+      ]);
+      expect((error as Error).message).toContain('title (line 1, column 8)');
+    });
+
+    it('should not report defined but empty values or loop aliases', () => {
+      const output = renderer.render(
+        '{{title}}{{#each items as item}}{{item.name}}{{/each}}',
+        { title: '', items: [{ name: 'a' }] },
+        { strict: true }
+      );
+      expect(output).toBe('a');
+    });
+
+    it('should return warnings alongside the output in warn mode', () => {
+      const result = renderer.render(template, { title: 'Doc' }, { warn: true });
+
+      expect(result.output).toBe('Title: Doc\nOwner: \nStatus: Draft');
+      expect(result.warnings).toEqual([
+        {
+          name: 'project.owner',
+          line: 2,
+          column: 8,
+          message: "Variable 'project.owner' is undefined"
+        }
+      ]);
+    });
+  });
+
+  describe('output escaping', () => {
+    const markdown = { format: 'markdown' as const };
+
+    it('should leave values untouched without a format', () => {
+      expect(renderer.render('{{value}}', { value: '<b>*x*</b>' })).toBe('<b>*x*</b>');
+    });
+
+    it('should escape pipes and line breaks in table cells', () => {
+      const template = '| Project | Owner |\n|---|---|\n| {{project}} | {{owner}} |';
+      const output = renderer.render(
+        template,
+        { project: 'Alpha | Beta', owner: 'Ann\nBob' },
+        markdown
+      );
+
+      expect(output.split('\n')[2]).toBe('| Alpha \\| Beta | Ann<br>Bob |');
+    });
+
+    it('should keep headings on one line and escape emphasis', () => {
+      const output = renderer.render('## {{title}}', { title: 'Release *2*\n# Oops' }, markdown);
+
+      expect(output).toBe('## Release \\*2\\* # Oops');
+    });
+
+    it('should escape link text and encode link targets', () => {
+      const output = renderer.render(
+        '[{{label}}]({{url}})',
+        { label: 'See [docs]', url: 'https://example.com/a b(1)' },
+        markdown
+      );
+
+      expect(output).toBe('[See \\[docs\\]](https://example.com/a%20b%281%29)');
+    });
+
+    it('should escape block markers at the start of a line', () => {
+      expect(renderer.render('{{item}}', { item: '# Not a heading' }, markdown)).toBe(
+        '\\# Not a heading'
+      );
+      expect(renderer.render('{{item}}', { item: '1. Not a list' }, markdown)).toBe(
+        '1\\. Not a list'
+      );
+    });
+
+    it('should escape HTML output', () => {
+      const output = renderer.render(
+        '<p title="{{title}}">{{body}}</p>',
+        { title: 'a "quoted" title', body: '<script>alert(1)</script>' },
+        { format: 'html' }
+      );
+
+      expect(output).toBe(
+        '<p title="a &quot;quoted&quot; title">&lt;script&gt;alert(1)&lt;/script&gt;</p>'
+      );
+    });
+
+    it('should not escape triple-brace variables', () => {
+      const output = renderer.render(
+        '{{{snippet}}} {{snippet}}',
+        { snippet: '<em>hi</em>' },
+        {
+          format: 'html'
+        }
+      );
+
+      expect(output).toBe('<em>hi</em> &lt;em&gt;hi&lt;/em&gt;');
+    });
+  });
+
+  describe('partials', () => {
+    const partials = {
+      'document-control': '| {{version}} | {{author}} | {{changes}} |',
+      signature: '{{role}}: ____',
+      signatures: '{{#each roles as role}}{{> signature role=role}}\n{{/each}}'
+    };
+
+    it('should render partials with parameters and the caller scope', () => {
+      const output = renderer.render(
+        '{{> document-control version=release changes="Initial version"}}',
+        { release: '2.0', author: 'Ann' },
+        { partials }
+      );
+
+      expect(output).toBe('| 2.0 | Ann | Initial version |');
+    });
+
+    it('should render nested partials', () => {
+      const output = renderer.render(
+        '{{> signatures roles=approvers}}',
+        { approvers: ['QA', 'PO'] },
+        {
+          partials
+        }
+      );
+
+      expect(output).toBe('QA: ____\nPO: ____\n');
+    });
+
+    it('should escape partial output for the table context in the partial', () => {
+      const output = renderer.render(
+        '{{> document-control version="1" author=name}}',
+        { name: 'A|B' },
+        {
+          format: 'markdown',
+          partials
+        }
+      );
+
+      expect(output).toBe('| 1 | A\\|B |  |');
+    });
+
+    it('should render precompiled partials and list what they include', () => {
+      const signatures = renderer.compilePartial('signatures', partials.signatures);
+      const signature = renderer.compilePartial('signature', partials.signature);
+
+      expect(signatures.includes).toEqual(['signature']);
+      const output = renderer.render(
+        '{{> signatures roles=approvers}}',
+        { approvers: ['QA'] },
+        { partials: { signatures, signature } }
+      );
+
+      expect(output).toBe('QA: ____\n');
+    });
+
+    it('should throw for missing partials', () => {
+      expect(() => renderer.render('text\n{{> missing}}', {}, { partials })).toThrow(
+        'Partial not found: missing (line 2, column 1)'
+      );
+    });
+
+    it('should detect circular includes', () => {
+      const cyclic = { a: 'A{{> b}}', b: 'B{{> a}}' };
+
+      expect(() => renderer.render('{{> a}}', {}, { partials: cyclic })).toThrow(
+        'Circular partial include: a -> b -> a'
+      );
+    });
+
+    it('should enforce the include depth limit', () => {
+      const chain = { one: '{{> two}}', two: '{{> three}}', three: 'deep' };
+
+      expect(renderer.render('{{> one}}', {}, { partials: chain })).toBe('deep');
+      expect(() =>
+        renderer.render('{{> one}}', {}, { partials: chain, maxPartialDepth: 2 })
+      ).toThrow('Partial include depth limit of 2 exceeded at three');
+    });
+
+    it('should leave parent placeholders to template inheritance', () => {
+      expect(renderer.render('before {{> parent}} after', {})).toBe('before  after');
+    });
+
+    it('should extract included partials and their parameter variables', () => {
+      const template = '{{> document-control version=release}}{{> parent}}{{> document-control}}';
+
+      expect(renderer.extractPartials(template)).toEqual(['document-control']);
+      expect(renderer.extractVariables(template).map((v) => v.name)).toEqual(['release']);
+    });
+  });
+
+  describe('named blocks', () => {
+    it('should render block content in place', () => {
+      const output = renderer.render('# {{title}}\n{{#block intro}}Hello {{name}}{{/block}}!', {
+        title: 'Doc',
+        name: 'Ann'
+      });
+
+      expect(output).toBe('# Doc\nHello Ann!');
+    });
+
+    it('should render super as empty in a template without a parent', () => {
+      expect(renderer.render('{{#block intro}}[{{super}}]{{/block}}', {})).toBe('[]');
+    });
+
+    it('should extract variables used inside blocks', () => {
+      const variables = renderer.extractVariables('{{#block intro}}{{name}}{{/block}}');
+
+      expect(variables.map((v) => v.name)).toEqual(['name']);
+    });
+  });
+
+  describe('compile', () => {
+    it('should return a reusable render function', () => {
+      const compiled = renderer.compile('Hello {{name}}!');
+
+      expect(compiled({ name: 'Alice' })).toBe('Hello Alice!');
+      expect(compiled({ name: 'Bob' })).toBe('Hello Bob!');
+    });
+
+    it('should match render output', () => {
+      const template =
+        '{{#each items as item}}{{#if item.done}}[x]{{/if}} {{item.name}}\n{{/each}}';
+      const variables = {
+        items: [
+          { name: 'A', done: true },
+          { name: 'B', done: false }
+        ]
+      };
+
+      expect(renderer.compile(template)(variables)).toBe(renderer.render(template, variables));
+    });
   });
 
   describe('validateVariables', () => {
@@ -214,47 +645,199 @@ Tasks:
       expect(result.warnings).toHaveLength(1);
       expect(result.warnings[0].type).toBe('unused');
     });
+
+    it('should run custom validators from the registry', () => {
+      const validators = new VariableValidatorRegistry();
+      validators.register(
+        'jira-key',
+        (value) => /^[A-Z]+-\d+$/.test(String(value)) || 'Expected a Jira key'
+      );
+      const customRenderer = new TemplateRenderer(mockLogger, undefined, validators);
+      const ticketTemplate: ISDLCTemplate = {
+        ...template,
+        variables: [
+          {
+            name: 'ticket',
+            type: 'string',
+            required: true,
+            description: 'Ticket',
+            validation: { custom: 'jira-key' }
+          }
+        ]
+      };
+
+      expect(customRenderer.validateVariables(ticketTemplate, { ticket: 'SDLC-42' }).valid).toBe(
+        true
+      );
+
+      const result = customRenderer.validateVariables(ticketTemplate, { ticket: 'nope' });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toBe('Expected a Jira key');
+    });
+
+    it('should await asynchronous custom validators in validateVariablesAsync', async () => {
+      const validators = new VariableValidatorRegistry();
+      validators.register('unique', async (value) => value !== 'taken');
+      const customRenderer = new TemplateRenderer(mockLogger, undefined, validators);
+      const nameTemplate: ISDLCTemplate = {
+        ...template,
+        variables: [
+          {
+            name: 'name',
+            type: 'string',
+            required: true,
+            description: 'Name',
+            validation: { custom: 'unique' }
+          }
+        ]
+      };
+
+      const result = await customRenderer.validateVariablesAsync(nameTemplate, { name: 'taken' });
+      expect(result.valid).toBe(false);
+      expect(result.errors[0].message).toContain("custom validation 'unique'");
+
+      const sync = customRenderer.validateVariables(nameTemplate, { name: 'taken' });
+      expect(sync.valid).toBe(true);
+      expect(sync.warnings[0].message).toContain('validateVariablesAsync');
+    });
+  });
+
+  describe('applyDefaults', () => {
+    const template: ISDLCTemplate = {
+      id: 'test',
+      name: 'Test Template',
+      category: 'document',
+      version: '1.0.0',
+      content: '',
+      variables: [
+        {
+          name: 'version',
+          type: 'string',
+          required: true,
+          description: 'Version',
+          default: '1.0.0'
+        },
+        {
+          name: 'project.owner',
+          type: 'string',
+          required: true,
+          description: 'Owner',
+          default: 'Platform Team'
+        },
+        { name: 'date', type: 'date', required: true, description: 'Date', default: 'today' },
+        { name: 'title', type: 'string', required: true, description: 'Title' }
+      ]
+    };
+
+    it('should fill in missing values, including dotted names', () => {
+      const variables = { title: 'Doc', project: { name: 'Atlas' } };
+      const result = renderer.applyDefaults(template, variables);
+
+      expect(result.applied).toEqual(['version', 'project.owner', 'date']);
+      expect(result.variables.version).toBe('1.0.0');
+      expect(result.variables.project).toEqual({ name: 'Atlas', owner: 'Platform Team' });
+      expect(variables.project).toEqual({ name: 'Atlas' });
+    });
+
+    it('should compute today for date variables', () => {
+      const { variables } = renderer.applyDefaults(template, {});
+      const today = new Date().toISOString().slice(0, 10);
+
+      expect(variables.date).toBeInstanceOf(Date);
+      expect(renderer.render('{{date}}', variables)).toBe(today);
+    });
+
+    it('should keep values supplied by the caller', () => {
+      const result = renderer.applyDefaults(template, {
+        version: '2.0.0',
+        project: { owner: 'Docs Team' },
+        date: '2024-01-15'
+      });
+
+      expect(result.applied).toEqual([]);
+      expect(result.variables.version).toBe('2.0.0');
+      expect(
+        renderer.validateVariables(template, { ...result.variables, title: 'Doc' }).valid
+      ).toBe(true);
+    });
   });
 
   describe('extractVariables', () => {
     it('should extract simple variables', () => {
       const template = 'Hello {{name}}, your email is {{email}}';
-      
+
       const variables = renderer.extractVariables(template);
       expect(variables).toHaveLength(2);
-      expect(variables.map(v => v.name)).toContain('name');
-      expect(variables.map(v => v.name)).toContain('email');
+      expect(variables.map((v) => v.name)).toContain('name');
+      expect(variables.map((v) => v.name)).toContain('email');
     });
 
     it('should extract variables from conditionals', () => {
       const template = '{{#if isAdmin}}Admin: {{adminName}}{{/if}}';
-      
+
       const variables = renderer.extractVariables(template);
-      expect(variables.map(v => v.name)).toContain('isAdmin');
-      expect(variables.map(v => v.name)).toContain('adminName');
+      expect(variables.map((v) => v.name)).toContain('isAdmin');
+      expect(variables.map((v) => v.name)).toContain('adminName');
     });
 
     it('should extract variables from loops', () => {
       const template = '{{#each users as user}}{{user.name}}{{/each}}';
-      
+
       const variables = renderer.extractVariables(template);
-      expect(variables.map(v => v.name)).toContain('users');
+      expect(variables.map((v) => v.name)).toContain('users');
     });
 
     it('should extract unique variables only', () => {
       const template = '{{name}} - {{name}} - {{name}}';
-      
+
       const variables = renderer.extractVariables(template);
       expect(variables).toHaveLength(1);
       expect(variables[0].name).toBe('name');
     });
 
+    it('should not report loop aliases as template variables', () => {
+      const template = '{{#each users as user}}{{user.name}} {{footer}}{{/each}}';
+
+      const variables = renderer.extractVariables(template);
+      expect(variables.map((v) => v.name).sort()).toEqual(['footer', 'users']);
+    });
+
+    it('should extract variables from else if and unless branches', () => {
+      const template =
+        '{{#if a}}{{x}}{{else if b}}{{y}}{{else}}{{z}}{{/if}}{{#unless c}}{{w}}{{/unless}}';
+
+      const variables = renderer.extractVariables(template);
+      expect(variables.map((v) => v.name).sort()).toEqual(['a', 'b', 'c', 'w', 'x', 'y', 'z']);
+    });
+
+    it('should extract variables from expressions and with blocks', () => {
+      const template =
+        '{{#if a == "x" || b.length > 0}}{{#with owner as o}}{{o.name}} {{c}}{{/with}}{{/if}}';
+
+      const variables = renderer.extractVariables(template);
+      expect(variables.map((v) => v.name).sort()).toEqual(['a', 'b.length', 'c', 'owner']);
+    });
+
+    it('should not report properties read inside with blocks without an alias', () => {
+      const template = '{{#with project}}{{name}}{{else}}{{fallback}}{{/with}}';
+
+      const variables = renderer.extractVariables(template);
+      expect(variables.map((v) => v.name).sort()).toEqual(['fallback', 'project']);
+    });
+
+    it('should not report loop metadata as template variables', () => {
+      const template = '{{#each items as item}}{{@index}} {{@key}}{{else}}{{empty}}{{/each}}';
+
+      const variables = renderer.extractVariables(template);
+      expect(variables.map((v) => v.name).sort()).toEqual(['empty', 'items']);
+    });
+
     it('should handle nested properties', () => {
       const template = '{{config.database.host}}:{{config.database.port}}';
-      
+
       const variables = renderer.extractVariables(template);
-      expect(variables.map(v => v.name)).toContain('config.database.host');
-      expect(variables.map(v => v.name)).toContain('config.database.port');
+      expect(variables.map((v) => v.name)).toContain('config.database.host');
+      expect(variables.map((v) => v.name)).toContain('config.database.port');
     });
   });
 
@@ -278,7 +861,7 @@ Tasks:
 
     it('should handle boolean conditions properly', () => {
       const template = '{{#if enabled}}Enabled{{/if}}';
-      
+
       expect(renderer.render(template, { enabled: true })).toBe('Enabled');
       expect(renderer.render(template, { enabled: false })).toBe('');
       expect(renderer.render(template, { enabled: 1 })).toBe('Enabled');
@@ -291,9 +874,9 @@ Tasks:
 
     it('should handle non-array values in loops gracefully', () => {
       const template = '{{#each items as item}}{{item}}{{/each}}';
-      
+
       const result = renderer.render(template, { items: 'not an array' });
       expect(result).toBe('');
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { analyze, editDistance, stem, tokenize } from '../../src/implementations/TextAnalyzer.js';
+
+describe('TextAnalyzer', () => {
+  describe('stem', () => {
+    it.each([
+      ['caresses', 'caress'],
+      ['ponies', 'poni'],
+      ['agreed', 'agre'],
+      ['hopping', 'hop'],
+      ['filing', 'file'],
+      ['happy', 'happi'],
+      ['relational', 'relat'],
+      ['generalization', 'gener'],
+      ['electrical', 'electr'],
+      ['adjustment', 'adjust'],
+      ['adoption', 'adopt'],
+      ['controll', 'control']
+    ])('should stem %s to %s', (word, expected) => {
+      expect(stem(word)).toBe(expected);
+    });
+
+    it('should give inflections of a word the same stem', () => {
+      expect(new Set(['test', 'tests', 'testing', 'tested'].map(stem))).toEqual(new Set(['test']));
+      expect(stem('attestation')).not.toBe('test');
+    });
+  });
+
+  describe('tokenize', () => {
+    it('should lowercase, drop stop words and keep offsets', () => {
+      expect(tokenize('The Test-First approach')).toEqual([
+        { term: 'test', start: 4, end: 8 },
+        { term: 'first', start: 9, end: 14 },
+        { term: 'approach', start: 15, end: 23 }
+      ]);
+    });
+
+    it('should keep numbers and non-English letters', () => {
+      expect(analyze('OWASP top 10 für Entwickler')).toEqual([
+        'owasp',
+        'top',
+        '10',
+        'für',
+        'entwickl'
+      ]);
+    });
+  });
+
+  describe('editDistance', () => {
+    it('should count insertions, deletions, substitutions and swaps', () => {
+      expect(editDistance('requirement', 'requirement')).toBe(0);
+      expect(editDistance('requirment', 'requirement')).toBe(1);
+      expect(editDistance('elicitaton', 'elicitation')).toBe(1);
+      expect(editDistance('tset', 'test')).toBe(1);
+      expect(editDistance('kitten', 'sitting')).toBe(3);
+      expect(editDistance('', 'abc')).toBe(3);
+    });
+
+    it('should stop once the distance exceeds the limit', () => {
+      expect(editDistance('security', 'secure', 1)).toBe(2);
+      expect(editDistance('a', 'abcdef', 2)).toBe(3);
+    });
+  });
+});
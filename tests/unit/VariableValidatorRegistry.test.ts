@@ -0,0 +1,68 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VariableValidatorRegistry } from '../../src/implementations/VariableValidatorRegistry.js';
+import type { ITemplateVariable } from '../../src/types/ContentTypes.js';
+
+describe('VariableValidatorRegistry', () => {
+  let registry: VariableValidatorRegistry;
+
+  const variable: ITemplateVariable = {
+    name: 'ticket',
+    type: 'string',
+    required: true,
+    description: 'Ticket key',
+    validation: { custom: 'jira-key' }
+  };
+
+  beforeEach(() => {
+    registry = new VariableValidatorRegistry();
+  });
+
+  it('should register validators by name', () => {
+    registry.register('jira-key', () => true);
+
+    expect(registry.has('jira-key')).toBe(true);
+    expect(registry.names()).toEqual(['jira-key']);
+    expect(() => registry.register('', () => true)).toThrow('Validator name is required');
+  });
+
+  it('should convert validator results into errors', () => {
+    registry.register('jira-key', (value) => /^[A-Z]+-\d+$/.test(String(value)));
+    registry.register('explained', () => 'Ticket must be open');
+
+    expect(registry.run('jira-key', 'SDLC-1', variable)).toEqual([]);
+    expect(registry.run('jira-key', 'sdlc', variable)).toEqual([
+      { path: 'ticket', message: "Value failed custom validation 'jira-key'", type: 'invalid' }
+    ]);
+    expect(registry.run('explained', 'SDLC-1', variable)).toEqual([
+      { path: 'ticket', message: 'Ticket must be open', type: 'invalid' }
+    ]);
+  });
+
+  it('should report unknown validators', () => {
+    expect(registry.run('missing', 'x', variable)).toEqual([
+      { path: 'ticket', message: "Unknown custom validator 'missing'", type: 'missing' }
+    ]);
+  });
+
+  it('should resolve asynchronous validators and capture failures', async () => {
+    registry.register('remote', async (value) => value === 'ok');
+    registry.register('broken', async () => {
+      throw new Error('service unavailable');
+    });
+    registry.register('throws', () => {
+      throw new Error('bad input');
+    });
+
+    await expect(registry.run('remote', 'ok', variable)).resolves.toEqual([]);
+    await expect(registry.run('broken', 'ok', variable)).resolves.toEqual([
+      {
+        path: 'ticket',
+        message: "Custom validator 'broken' failed: service unavailable",
+        type: 'invalid'
+      }
+    ]);
+    expect(registry.run('throws', 'ok', variable)).toEqual([
+      { path: 'ticket', message: "Custom validator 'throws' failed: bad input", type: 'invalid' }
+    ]);
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countFacets,
+  dateKey,
+  decodeCursor,
+  encodeCursor,
+  paginate,
+  sortBy
+} from '../../src/utils/paging.js';
+
+const items = [
+  { id: 'a', category: 'guideline', phase: 'design', tags: ['security', 'api'] },
+  { id: 'b', category: 'guideline', tags: ['security'] },
+  { id: 'c', category: 'example', phase: 'design', tags: [] },
+  { id: 'd', category: 'reference', phase: 'testing', tags: ['api', 'api'] },
+  { id: 'e', category: 'guideline', phase: 'testing' }
+];
+
+describe('paging', () => {
+  describe('countFacets', () => {
+    it('should count categories, phases and tags once per item', () => {
+      expect(countFacets(items)).toEqual({
+        category: { guideline: 3, example: 1, reference: 1 },
+        phase: { design: 2, testing: 2 },
+        tag: { security: 2, api: 2 }
+      });
+    });
+  });
+
+  describe('paginate', () => {
+    const ids = (page: { items: Array<{ id: string }> }) => page.items.map((item) => item.id);
+
+    it('should return every item without a limit', () => {
+      const page = paginate(items, {}, (item) => item);
+
+      expect(ids(page)).toEqual(['a', 'b', 'c', 'd', 'e']);
+      expect(page.total).toBe(5);
+      expect(page.offset).toBe(0);
+      expect(page.nextCursor).toBeUndefined();
+    });
+
+    it('should follow cursors page by page', () => {
+      const first = paginate(items, { limit: 2 }, (item) => item);
+      const second = paginate(items, { limit: 2, cursor: first.nextCursor }, (item) => item);
+      const last = paginate(items, { limit: 2, cursor: second.nextCursor }, (item) => item);
+
+      expect([ids(first), ids(second), ids(last)]).toEqual([['a', 'b'], ['c', 'd'], ['e']]);
+      expect(last.offset).toBe(4);
+      expect(last.nextCursor).toBeUndefined();
+    });
+
+    it('should page by offset and count facets over all items', () => {
+      const page = paginate(items, { offset: 3, limit: 10 }, (item) => item);
+
+      expect(ids(page)).toEqual(['d', 'e']);
+      expect(page.facets.category).toEqual({ guideline: 3, example: 1, reference: 1 });
+      expect(ids(paginate(items, { offset: -2, limit: 1 }, (item) => item))).toEqual(['a']);
+    });
+  });
+
+  describe('cursors', () => {
+    it('should round-trip offsets and reject anything else', () => {
+      expect(decodeCursor(encodeCursor(20))).toBe(20);
+      expect(() => decodeCursor('not-a-cursor')).toThrow("Invalid cursor 'not-a-cursor'");
+      expect(() => decodeCursor(Buffer.from('{"offset":-1}').toString('base64url'))).toThrow(
+        'Invalid cursor'
+      );
+    });
+  });
+
+  describe('sortBy', () => {
+    const dated = [
+      { id: 'old', title: 'beta', updated: '2023-01-05' },
+      { id: 'undated', title: 'Alpha' },
+      { id: 'new', title: 'gamma', updated: '2024-06-01T12:00:00Z' },
+      { id: 'same', title: 'Beta', updated: '2023-01-05' }
+    ];
+    type Dated = (typeof dated)[number];
+    const sortIds = (key: (item: Dated) => string | number | undefined, order: 'asc' | 'desc') =>
+      sortBy(dated, key, order).map((item) => item.id);
+
+    it('should compare text without regard to case and keep ties in order', () => {
+      expect(sortIds((item) => item.title, 'asc')).toEqual(['undated', 'old', 'same', 'new']);
+      expect(sortIds((item) => item.title, 'desc')).toEqual(['new', 'old', 'same', 'undated']);
+    });
+
+    it('should put items without a key last in either direction', () => {
+      const key = (item: Dated) => dateKey(item.updated);
+
+      expect(sortIds(key, 'desc')).toEqual(['new', 'old', 'same', 'undated']);
+      expect(sortIds(key, 'asc')).toEqual(['old', 'same', 'new', 'undated']);
+    });
+  });
+
+  describe('dateKey', () => {
+    it('should ignore missing and unreadable dates', () => {
+      expect(dateKey('2024-06-01')).toBe(Date.UTC(2024, 5, 1));
+      expect(dateKey(undefined)).toBeUndefined();
+      expect(dateKey('last tuesday')).toBeUndefined();
+    });
+  });
+});
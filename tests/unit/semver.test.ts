@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareVersions,
+  maxSatisfying,
+  parseTemplateRef,
+  satisfies
+} from '../../src/utils/semver.js';
+
+describe('semver', () => {
+  describe('satisfies', () => {
+    it.each([
+      ['1.2.3', '1.2.3', true],
+      ['1.2.4', '1.2.3', false],
+      ['1.9.0', '1.x', true],
+      ['2.0.0', '1.x', false],
+      ['1.2.9', '1.2', true],
+      ['1.3.0', '1.2', false],
+      ['1.2.0', '^1.2', true],
+      ['1.9.9', '^1.2.3', true],
+      ['2.0.0', '^1.2.3', false],
+      ['0.2.9', '^0.2.1', true],
+      ['0.3.0', '^0.2.1', false],
+      ['0.0.4', '^0.0.3', false],
+      ['1.2.9', '~1.2.3', true],
+      ['1.3.0', '~1.2.3', false],
+      ['1.5.0', '~1', true],
+      ['1.3.0', '>1.2', true],
+      ['1.2.9', '>1.2', false],
+      ['1.2.9', '<=1.2', true],
+      ['1.3.0', '<=1.2', false],
+      ['1.5.0', '>=1.2.0 <2.0.0', true],
+      ['2.0.0', '>= 1.2.0 < 2.0.0', false],
+      ['3.1.0', '1.x || >=3', true],
+      ['2.1.0', '1.x || >=3', false],
+      ['4.0.0', '*', true],
+      ['4.0.0', 'latest', true]
+    ])('%s satisfies %s: %s', (version, range, expected) => {
+      expect(satisfies(version, range)).toBe(expected);
+    });
+
+    it('should reject malformed ranges', () => {
+      expect(() => satisfies('1.0.0', '^one')).toThrow("Invalid version range '^one'");
+      expect(() => satisfies('1.0.0', '1.x ||')).toThrow("Invalid version range '1.x ||'");
+    });
+  });
+
+  it('should compare versions numerically', () => {
+    expect(['1.10.0', '1.2.0', '1.9.3'].sort(compareVersions)).toEqual([
+      '1.2.0',
+      '1.9.3',
+      '1.10.0'
+    ]);
+  });
+
+  it('should pick the highest matching version', () => {
+    const versions = ['1.0.0', '1.4.2', '2.0.0', '1.10.1'];
+
+    expect(maxSatisfying(versions, '^1.2')).toBe('1.10.1');
+    expect(maxSatisfying(versions, '~1.4')).toBe('1.4.2');
+    expect(maxSatisfying(versions, '>=3')).toBeUndefined();
+  });
+
+  it('should split template references', () => {
+    expect(parseTemplateRef('requirements-spec')).toEqual({ id: 'requirements-spec' });
+    expect(parseTemplateRef('requirements-spec@^1.2')).toEqual({
+      id: 'requirements-spec',
+      range: '^1.2'
+    });
+    expect(parseTemplateRef('document-base@latest')).toEqual({
+      id: 'document-base',
+      range: undefined
+    });
+  });
+});